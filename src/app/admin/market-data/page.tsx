@@ -0,0 +1,52 @@
+'use client';
+import { User } from '@/types';
+import { useAuth } from '@/components/AuthProvider';
+import Navbar from '@/components/Navbar';
+import MarketDataUpload from '@/components/MarketDataUpload';
+
+export default function MarketDataAdmin() {
+  const { user: authUser, loading: authLoading } = useAuth();
+
+  if (authLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-gray-600 dark:text-gray-300 font-medium">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!authUser) {
+    return (
+      <div className="flex justify-center items-center min-h-screen px-4">
+        <div className="bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 p-4 rounded max-w-md w-full text-center">
+          <h2 className="font-bold text-lg mb-2">Authentication Required</h2>
+          <p>Please log in to manage market data.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Navbar user={authUser as User} />
+      <main className="dashboard-layout pt-20">
+        <header className="dashboard-header mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Market Data
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400 mt-1">
+              Upload dated yield curves by region; rollover suggestions are priced off the latest curve
+            </p>
+          </div>
+        </header>
+
+        <div className="puzzle-item">
+          <div className="puzzle-item-content">
+            <MarketDataUpload />
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
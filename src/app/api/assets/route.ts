@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { FixedIncomeAsset } from '@/types';
+import { sanitizeAsset, validateAsset } from '@/lib/validation';
 
 export async function GET() {
   try {
@@ -61,12 +62,21 @@ export async function POST(request: Request) {
     // Get the current user ID
     const user_id = user.id;
     
-    // Parse the request body
+    // Parse the request body, keeping only the asset columns
     const body = await request.json();
+    const asset = sanitizeAsset(body);
+    
+    const fieldErrors = validateAsset(asset);
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid asset', details: Object.values(fieldErrors).join('; '), fields: fieldErrors },
+        { status: 400 }
+      );
+    }
     
     // Create a new asset with correct user_id
     const newAsset = {
-      ...body,
+      ...asset,
       user_id: user_id
     };
     
@@ -149,3 +159,161 @@ export async function DELETE(request: Request) {
     );
   }
 }
+
+// Fields a full replacement (PUT) must supply
+const REQUIRED_FIELDS = [
+  'type', 'issuer_type', 'name', 'purchase_date', 'face_value', 'purchase_price',
+  'interest_rate', 'interest_payment_frequency', 'currency', 'region', 'taxable', 'callable'
+];
+
+/**
+ * Update an asset the user owns. A partial update merges the body into the stored asset; a full
+ * update replaces every editable field, clearing those the body leaves out to null. The body must
+ * carry the `updated_at` the client last saw, and the update is refused with 409 if the asset has
+ * changed since.
+ */
+async function updateAsset(request: Request, partial: boolean) {
+  try {
+    // Create server client
+    const supabase = await createClient();
+    
+    // Check if user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Get the current user ID
+    const user_id = user.id;
+    
+    // Get the asset ID from the URL
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Missing asset ID' },
+        { status: 400 }
+      );
+    }
+    
+    // Parse the request body
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid asset', details: 'The body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+    const expectedUpdatedAt = body.updated_at as string | null | undefined;
+    
+    if (expectedUpdatedAt === undefined) {
+      return NextResponse.json(
+        { error: 'Missing updated_at', details: 'Send the updated_at of the asset being edited' },
+        { status: 400 }
+      );
+    }
+    
+    // A full update clears every editable column the body leaves out
+    const changes: Record<string, unknown> = sanitizeAsset(body, !partial);
+    
+    if (!partial) {
+      const missing = REQUIRED_FIELDS.filter(field => changes[field] == null);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: 'Missing required fields', details: missing.join(', ') },
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Fetch the stored asset (ensuring it belongs to the current user)
+    const { data: existing, error: fetchError } = await supabase
+      .from('fixed_income_assets')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user_id)
+      .maybeSingle();
+    
+    if (fetchError) {
+      console.error('Error fetching asset:', fetchError);
+      return NextResponse.json(
+        { error: 'Failed to update asset', details: fetchError.message },
+        { status: 500 }
+      );
+    }
+    
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      );
+    }
+    
+    const fieldErrors = validateAsset({ ...existing, ...changes });
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid asset', details: Object.values(fieldErrors).join('; '), fields: fieldErrors },
+        { status: 400 }
+      );
+    }
+    
+    // Only update if nobody has saved the asset since the client loaded it
+    let query = supabase
+      .from('fixed_income_assets')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user_id);
+    query = expectedUpdatedAt === null
+      ? query.is('updated_at', null)
+      : query.eq('updated_at', expectedUpdatedAt);
+    
+    const { data, error } = await query.select().maybeSingle();
+    
+    if (error) {
+      console.error('Error updating asset:', error);
+      return NextResponse.json(
+        { error: 'Failed to update asset', details: error.message },
+        { status: 500 }
+      );
+    }
+    
+    if (!data) {
+      return NextResponse.json(
+        {
+          error: 'Asset was modified by another session',
+          details: 'Reload the asset and apply your changes again',
+          current: existing as FixedIncomeAsset
+        },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(data as FixedIncomeAsset);
+  } catch (error) {
+    console.error('Error handling asset update:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  return updateAsset(request, true);
+}
+
+export async function PUT(request: Request) {
+  return updateAsset(request, false);
+}
@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import { isValid, parseISO } from 'date-fns';
+import { createClient } from '@/lib/supabase/server';
+import { CurrencyRate, CURRENCIES } from '@/types';
+
+/**
+ * Error message for an invalid rate, or null when it is valid
+ */
+function getRateError(rate: Partial<CurrencyRate>): string | null {
+  if (!CURRENCIES.some(currency => currency.code === rate.base)) {
+    return `Unknown base currency: ${rate.base}`;
+  }
+  if (!CURRENCIES.some(currency => currency.code === rate.quote)) {
+    return `Unknown quote currency: ${rate.quote}`;
+  }
+  if (rate.base === rate.quote) {
+    return 'Base and quote currencies must differ';
+  }
+  if (typeof rate.rate !== 'number' || !(rate.rate > 0)) {
+    return `Rate for ${rate.base}/${rate.quote} must be a positive number`;
+  }
+  if (typeof rate.date !== 'string' || !isValid(parseISO(rate.date))) {
+    return `Invalid date for ${rate.base}/${rate.quote}`;
+  }
+  return null;
+}
+
+export async function GET(request: Request) {
+  try {
+    // Create server client
+    const supabase = await createClient();
+    
+    // Check if user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Optionally only return rates on or before a date
+    const { searchParams } = new URL(request.url);
+    const asOf = searchParams.get('date');
+    
+    let query = supabase
+      .from('currency_rates')
+      .select('base, quote, rate, date')
+      .order('date', { ascending: false });
+    if (asOf) {
+      query = query.lte('date', asOf);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching currency rates:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch currency rates' },
+        { status: 500 }
+      );
+    }
+    
+    return NextResponse.json(data as CurrencyRate[]);
+  } catch (error) {
+    console.error('Error handling currency rates fetch:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // Create server client
+    const supabase = await createClient();
+    
+    // Check if user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Rates are shared by every user, so only admins may upload them
+    if (user.app_metadata?.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Only administrators can upload currency rates' },
+        { status: 403 }
+      );
+    }
+    
+    // Accept a single rate or a list of rates
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    const rates = (Array.isArray(body) ? body : [body]) as Partial<CurrencyRate>[];
+    
+    for (const rate of rates) {
+      const rateError = rate && typeof rate === 'object' ? getRateError(rate) : 'Each rate must be an object';
+      if (rateError) {
+        return NextResponse.json(
+          { error: 'Invalid currency rate', details: rateError },
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Store the rates, replacing any quote already stored for the same pair and date
+    const { data, error } = await supabase
+      .from('currency_rates')
+      .upsert(
+        rates.map(({ base, quote, rate, date }) => ({ base, quote, rate, date })),
+        { onConflict: 'base,quote,date' }
+      )
+      .select('base, quote, rate, date');
+    
+    if (error) {
+      console.error('Error storing currency rates:', error);
+      return NextResponse.json(
+        { error: 'Failed to store currency rates', details: error.message },
+        { status: 500 }
+      );
+    }
+    
+    return NextResponse.json(data as CurrencyRate[]);
+  } catch (error) {
+    console.error('Error handling currency rates upload:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
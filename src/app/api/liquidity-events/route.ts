@@ -1,6 +1,38 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { addYears, isValid, parseISO } from 'date-fns';
 import { LiquidityEvent } from '@/types';
+import { DEFAULT_EXPANSION_YEARS, expandLiquidityEvents, RECURRENCE_NAMES } from '@/lib/liquidity';
+
+// Fields a client may set on an event
+const EVENT_FIELDS = ['amount', 'currency', 'date', 'description', 'direction', 'recurrence', 'recurrence_end'] as const;
+
+/**
+ * Whether an event has every required field
+ */
+function hasRequiredFields(event: Partial<LiquidityEvent>): boolean {
+  return !!(event.amount != null && event.currency && event.date && event.description);
+}
+
+/**
+ * Error message for an invalid amount, direction or recurrence rule, or null when all are valid.
+ * Amounts are always positive; the direction gives their sign.
+ */
+function getEventError(event: Partial<LiquidityEvent>): string | null {
+  if (typeof event.amount !== 'number' || !Number.isFinite(event.amount) || event.amount <= 0) {
+    return 'Amount must be a number greater than 0';
+  }
+  if (event.direction && event.direction !== 'inflow' && event.direction !== 'outflow') {
+    return 'Direction must be inflow or outflow';
+  }
+  if (event.recurrence && !Object.hasOwn(RECURRENCE_NAMES, event.recurrence)) {
+    return 'Recurrence must be none, monthly, quarterly or yearly';
+  }
+  if (event.recurrence_end && event.date && event.recurrence_end < event.date) {
+    return 'Recurrence end date must be on or after the first date';
+  }
+  return null;
+}
 
 export async function POST(request: Request) {
   try {
@@ -23,20 +55,32 @@ export async function POST(request: Request) {
     const body = await request.json();
     
     // Validate the input
-    if (!body.amount || !body.currency || !body.date || !body.description) {
+    if (!hasRequiredFields(body)) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
     
+    const eventError = getEventError(body);
+    if (eventError) {
+      return NextResponse.json(
+        { error: eventError },
+        { status: 400 }
+      );
+    }
+    
     // Create a new liquidity event
+    const recurrence = body.recurrence || 'none';
     const newEvent = {
       user_id: user_id,
       amount: body.amount,
       currency: body.currency,
       date: body.date,
-      description: body.description
+      description: body.description,
+      direction: body.direction || 'outflow',
+      recurrence,
+      recurrence_end: recurrence !== 'none' ? body.recurrence_end || null : null
     };
     
     // Insert the event into the database
@@ -66,7 +110,7 @@ export async function POST(request: Request) {
   }
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     // Create server client
     const supabase = await createClient();
@@ -98,8 +142,23 @@ export async function GET() {
       );
     }
     
+    // Expand recurring events into their occurrences, up to an optional earlier horizon
+    const { searchParams } = new URL(request.url);
+    const until = searchParams.get('until');
+    if (until && !isValid(parseISO(until))) {
+      return NextResponse.json(
+        { error: 'Invalid until date' },
+        { status: 400 }
+      );
+    }
+    
+    // Open-ended series are never expanded past the default horizon, whatever date is asked for
+    const maxHorizon = addYears(new Date(), DEFAULT_EXPANSION_YEARS);
+    const horizon = until && parseISO(until) < maxHorizon ? parseISO(until) : maxHorizon;
+    const occurrences = expandLiquidityEvents(data as LiquidityEvent[], horizon);
+    
     // Return the liquidity events
-    return NextResponse.json(data as LiquidityEvent[]);
+    return NextResponse.json(occurrences);
     
   } catch (error) {
     console.error('Error handling liquidity events fetch:', error);
@@ -163,4 +222,129 @@ export async function DELETE(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export async function PATCH(request: Request) {
+  try {
+    // Create server client
+    const supabase = await createClient();
+    
+    // Check if user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Get the current user ID
+    const user_id = user.id;
+    
+    // Get the event ID from the URL
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Missing event ID' },
+        { status: 400 }
+      );
+    }
+    
+    // Parse the request body, keeping only the editable fields
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'The body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+    const changes: Partial<LiquidityEvent> = {};
+    EVENT_FIELDS.forEach(field => {
+      if (body[field] !== undefined) {
+        Object.assign(changes, { [field]: body[field] });
+      }
+    });
+    
+    // Fetch the stored event (ensuring it belongs to the current user)
+    const { data: existing, error: fetchError } = await supabase
+      .from('liquidity_events')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user_id)
+      .maybeSingle();
+    
+    if (fetchError) {
+      console.error('Error fetching liquidity event:', fetchError);
+      return NextResponse.json(
+        { error: 'Failed to update liquidity event' },
+        { status: 500 }
+      );
+    }
+    
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Liquidity event not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Validate the updated event the same way as a new one
+    const updated = { ...existing, ...changes };
+    if (!hasRequiredFields(updated)) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+    
+    const eventError = getEventError(updated);
+    if (eventError) {
+      return NextResponse.json(
+        { error: eventError },
+        { status: 400 }
+      );
+    }
+    
+    // A one-off event has no end date
+    if (updated.recurrence === 'none') {
+      changes.recurrence_end = null;
+    }
+    
+    // Update the event
+    const { data, error } = await supabase
+      .from('liquidity_events')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user_id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating liquidity event:', error);
+      return NextResponse.json(
+        { error: 'Failed to update liquidity event' },
+        { status: 500 }
+      );
+    }
+    
+    // Return the updated event
+    return NextResponse.json(data as LiquidityEvent);
+    
+  } catch (error) {
+    console.error('Error handling liquidity event update:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getMarketDataError, parseMarketDataCsv } from '@/lib/marketData';
+import { RegionalMarketData } from '@/types';
+
+const MARKET_DATA_COLUMNS = 'region, date, benchmark_rate, inflation_rate, yield_curve, cpi, updated_at';
+
+export async function GET(request: Request) {
+  try {
+    // Create server client
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Optionally filter by region and only return curves on or before a date
+    const { searchParams } = new URL(request.url);
+    const region = searchParams.get('region');
+    const asOf = searchParams.get('date');
+
+    let query = supabase
+      .from('regional_market_data')
+      .select(MARKET_DATA_COLUMNS)
+      .order('date', { ascending: false });
+    if (region) {
+      query = query.eq('region', region);
+    }
+    if (asOf) {
+      query = query.lte('date', asOf);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching market data:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch market data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(data as RegionalMarketData[]);
+  } catch (error) {
+    console.error('Error handling market data fetch:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // Create server client
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Curves are shared by every user, so only admins may upload them
+    if (user.app_metadata?.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Only administrators can upload market data' },
+        { status: 403 }
+      );
+    }
+
+    // Accept CSV text, or JSON with a single curve or a list of curves
+    let curves: Partial<RegionalMarketData>[];
+    if (request.headers.get('content-type')?.includes('text/csv')) {
+      try {
+        curves = parseMarketDataCsv(await request.text());
+      } catch (parseError) {
+        return NextResponse.json(
+          { error: 'Invalid CSV', details: parseError instanceof Error ? parseError.message : String(parseError) },
+          { status: 400 }
+        );
+      }
+    } else {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        );
+      }
+      curves = (Array.isArray(body) ? body : [body]) as Partial<RegionalMarketData>[];
+    }
+
+    if (curves.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid market data', details: 'No curves to upload' },
+        { status: 400 }
+      );
+    }
+
+    for (const curve of curves) {
+      const curveError = curve && typeof curve === 'object' ? getMarketDataError(curve) : 'Each curve must be an object';
+      if (curveError) {
+        return NextResponse.json(
+          { error: 'Invalid market data', details: curveError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Store the curves, replacing any curve already stored for the same region and date
+    const updatedAt = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('regional_market_data')
+      .upsert(
+        curves.map(({ region, date, benchmark_rate, inflation_rate, yield_curve, cpi }) => ({
+          region,
+          date,
+          benchmark_rate,
+          inflation_rate,
+          yield_curve,
+          cpi: cpi && Object.keys(cpi).length > 0 ? cpi : null,
+          updated_at: updatedAt
+        })),
+        { onConflict: 'region,date' }
+      )
+      .select(MARKET_DATA_COLUMNS);
+
+    if (error) {
+      console.error('Error storing market data:', error);
+      return NextResponse.json(
+        { error: 'Failed to store market data', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(data as RegionalMarketData[]);
+  } catch (error) {
+    console.error('Error handling market data upload:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
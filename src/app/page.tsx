@@ -1,19 +1,35 @@
 'use client';
-import { useState, useEffect, useCallback } from 'react';
-import { FixedIncomeAsset, LiquidityEvent, User, Recommendation, CurrencyCode } from '@/types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { FixedIncomeAsset, LiquidityEvent, User, Recommendation, CurrencyCode, CurrencyRate, RegionalMarketData, ALLOCATION_BANDS, ASSET_TYPE_NAMES, REGIONS } from '@/types';
 import { useAuth } from '@/components/AuthProvider';
 import AssetTable from '../components/AssetTable';
 import LiquidityTimeline from '../components/LiquidityTimeline';
 import RecommendationPanel from '../components/RecommendationPanel';
 import PortfolioSummary from '../components/PortfolioSummary';
 import Navbar from '../components/Navbar';
-import { addMonths, differenceInMonths, format } from 'date-fns';
-import { formatCurrency, getMarketValue, getTotalMarketValue, calculateYTM } from '@/lib/utils';
+import { addMonths, differenceInMonths, format, parseISO } from 'date-fns';
+import { formatCurrency, getMarketValue, getTotalMarketValue, calculateWeightedAverage, calculateYTW, getAssetGroup } from '@/lib/utils';
+import { generateCashFlowSchedule } from '@/lib/cashflows';
+import { analyzeConcentration, CONCENTRATION_LIMITS_BY_PROFILE } from '@/lib/concentration';
+import { calculatePortfolioCreditRisk, CREDIT_RATINGS, getRatingNotch } from '@/lib/credit';
+import { indexAssets } from '@/lib/inflation';
+import { getSignedAmount, isInflow } from '@/lib/liquidity';
+import { simulateLiquidityCoverage } from '@/lib/liquidityStress';
+import { buildRateTable, getLatestMarketData } from '@/lib/marketData';
+import { priceAssets } from '@/lib/pricing';
+import { convertAssets, convertEvents, createFxConverter, FxConverter, getReportingMarketValue } from '@/lib/fx';
+import { optimizePortfolio } from '@/lib/optimizer/portfolio';
+import { getLiabilities, immunizePortfolio } from '@/lib/optimizer/immunization';
+import { buildLadder } from '@/lib/optimizer/ladder';
+import { rebalancePortfolio } from '@/lib/optimizer/rebalance';
+import { buildCandidateUniverse, RateTable } from '@/lib/optimizer/universe';
 
 export default function Dashboard() {
   const { user: authUser, loading: authLoading, error: authError } = useAuth();
   const [assets, setAssets] = useState<FixedIncomeAsset[]>([]);
   const [liquidityEvents, setLiquidityEvents] = useState<LiquidityEvent[]>([]);
+  const [currencyRates, setCurrencyRates] = useState<CurrencyRate[]>([]);
+  const [marketData, setMarketData] = useState<RegionalMarketData[]>([]);
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [dataLoading, setDataLoading] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
@@ -25,9 +41,11 @@ export default function Dashboard() {
     try {
       setDataLoading(true);
 
-      const [assetsResponse, eventsResponse] = await Promise.all([
+      const [assetsResponse, eventsResponse, ratesResponse, marketDataResponse] = await Promise.all([
         fetch('/api/assets'),
-        fetch('/api/liquidity-events')
+        fetch('/api/liquidity-events'),
+        fetch('/api/currency-rates'),
+        fetch('/api/market-data')
       ]);
 
       // Check for errors
@@ -45,6 +63,22 @@ export default function Dashboard() {
       const assetsData = await assetsResponse.json();
       const eventsData = await eventsResponse.json();
 
+      // Stored exchange rates are optional; the converter falls back to approximate rates
+      let ratesData: CurrencyRate[] = [];
+      if (ratesResponse.ok) {
+        ratesData = await ratesResponse.json();
+      } else {
+        console.error('Failed to fetch currency rates, using approximate rates');
+      }
+
+      // Stored yield curves are optional too; regions without one keep the approximate rates
+      let curvesData: RegionalMarketData[] = [];
+      if (marketDataResponse.ok) {
+        curvesData = await marketDataResponse.json();
+      } else {
+        console.error('Failed to fetch market data, using approximate rates');
+      }
+
       // Process assets - add defaults
       const assetsWithDefaults = (assetsData || []).map((asset: FixedIncomeAsset) => ({
         ...asset,
@@ -61,13 +95,17 @@ export default function Dashboard() {
       // Update state
       setAssets(assetsWithDefaults);
       setLiquidityEvents(eventsWithDefaults);
+      setCurrencyRates(ratesData);
+      setMarketData(curvesData);
 
       // Generate recommendations after data is ready
       if (authUser && assetsWithDefaults) {
         const generatedRecommendations = generateRecommendations(
           authUser,
-          assetsWithDefaults,
-          eventsWithDefaults
+          priceAssets(indexAssets(assetsWithDefaults, curvesData), curvesData),
+          eventsWithDefaults,
+          createFxConverter(ratesData, authUser.currency || 'EUR'),
+          curvesData
         );
 
         setRecommendations(generatedRecommendations);
@@ -79,6 +117,16 @@ export default function Dashboard() {
     }
   }, [authUser]);
 
+  // Converts holdings and events into the user's reporting currency
+  const fx = useMemo(
+    () => createFxConverter(currencyRates, authUser?.currency || 'EUR'),
+    [currencyRates, authUser?.currency]
+  );
+
+  // Inflation-linked bonds are indexed to regional CPI, and holdings without a current price are
+  // valued off the regional curves
+  const pricedAssets = useMemo(() => priceAssets(indexAssets(assets, marketData), marketData), [assets, marketData]);
+
   // Fetch data when authentication is complete
   useEffect(() => {
     if (!authLoading && authUser) {
@@ -201,8 +249,10 @@ export default function Dashboard() {
             <div className="puzzle-item">
               <div className="puzzle-item-content">
                 <PortfolioSummary 
-                  assets={assets} 
+                  assets={pricedAssets} 
                   user={authUser as User} 
+                  fx={fx}
+                  marketData={marketData}
                 />
               </div>
             </div>
@@ -213,8 +263,10 @@ export default function Dashboard() {
               <div className="puzzle-item-content">
                 <LiquidityTimeline 
                   events={liquidityEvents} 
-                  assets={assets} 
+                  assets={pricedAssets} 
                   user={authUser as User}
+                  fx={fx}
+                  marketData={marketData}
                 />
               </div>
             </div>
@@ -225,9 +277,10 @@ export default function Dashboard() {
             <div className="puzzle-item h-[550px]">
               <div className="puzzle-item-content">
                 <AssetTable 
-                  assets={assets} 
+                  assets={pricedAssets} 
                   setAssets={setAssets} 
                   user={authUser as User}
+                  marketData={marketData}
                 />
               </div>
             </div>
@@ -249,11 +302,31 @@ export default function Dashboard() {
   );
 }
 
+// Minimum credit rating the optimizer may hold for each risk profile
+const MIN_RATING_BY_PROFILE: Record<User['risk_tolerance'], string | undefined> = {
+  conservative: 'A-',
+  moderate: 'BBB-',
+  aggressive: undefined
+};
+
+// Annual expected credit loss each risk profile tolerates, in basis points of portfolio value
+const MAX_EXPECTED_LOSS_BPS_BY_PROFILE: Record<User['risk_tolerance'], number> = {
+  conservative: 5,
+  moderate: 15,
+  aggressive: 40
+};
+
+// Confidence below which an upcoming expense is flagged by the liquidity stress test
+const MIN_LIQUIDITY_COVERAGE = 0.95;
+const LIQUIDITY_STRESS_PATHS = 500;
+
 // Advanced recommendation generator function
 function generateRecommendations(
   user: User,
   assets: FixedIncomeAsset[],
-  events: LiquidityEvent[]
+  events: LiquidityEvent[],
+  fx: FxConverter,
+  marketData: RegionalMarketData[] = []
 ): Recommendation[] {
   const recommendations: Recommendation[] = [];
   const today = new Date();
@@ -266,6 +339,13 @@ function generateRecommendations(
   const userCurrency = user.currency || 'EUR';
   const userRegion = user.country || 'eurozone';
 
+  // Holdings and events restated in the reporting currency, for portfolio-wide totals
+  const reportingAssets = convertAssets(assets, fx);
+  const reportingEvents = convertEvents(events, fx);
+
+  // Market rates from the latest stored curves, falling back to the approximate table
+  const rates = buildRateTable(marketData, today);
+
   // 1. ROLLOVER RECOMMENDATIONS
   // Find assets that will mature in the next 90 days
   const soonMaturingAssets = assets.filter(asset => {
@@ -275,38 +355,6 @@ function generateRecommendations(
   });
 
   if (soonMaturingAssets.length > 0) {
-    // Get current approximate market rates based on asset type, term, and region
-    const approximateRates: Record<string, Record<string, Record<string, number>>> = {
-      'eurozone': {
-        'governmentBond': { short: 2.8, medium: 3.1, long: 3.5 },
-        'corporateBond': { short: 3.2, medium: 3.7, long: 4.1 },
-        'CD': { short: 2.5, medium: 2.9, long: 3.3 },
-        'treasuryBill': { short: 2.7, medium: 3.0, long: 3.4 },
-        'moneyMarket': { short: 2.4, medium: 0, long: 0 }
-      },
-      'uk': {
-        'governmentBond': { short: 3.9, medium: 4.2, long: 4.5 },
-        'corporateBond': { short: 4.3, medium: 4.7, long: 5.1 },
-        'CD': { short: 3.7, medium: 4.0, long: 4.3 },
-        'treasuryBill': { short: 3.8, medium: 4.1, long: 4.4 },
-        'moneyMarket': { short: 3.6, medium: 0, long: 0 }
-      },
-      'us': {
-        'governmentBond': { short: 4.1, medium: 4.5, long: 4.8 },
-        'corporateBond': { short: 4.5, medium: 5.0, long: 5.4 },
-        'CD': { short: 4.0, medium: 4.3, long: 4.6 },
-        'treasuryBill': { short: 3.9, medium: 4.2, long: 4.4 },
-        'moneyMarket': { short: 3.8, medium: 0, long: 0 }
-      },
-      'global': {
-        'governmentBond': { short: 3.5, medium: 3.9, long: 4.2 },
-        'corporateBond': { short: 4.0, medium: 4.5, long: 4.8 },
-        'CD': { short: 3.4, medium: 3.7, long: 4.0 },
-        'treasuryBill': { short: 3.5, medium: 3.8, long: 4.1 },
-        'moneyMarket': { short: 3.3, medium: 0, long: 0 }
-      }
-    };
-
     for (const asset of soonMaturingAssets) {
       const maturityDate = new Date(asset.maturity_date);
       const daysToMaturity = Math.round((maturityDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
@@ -317,14 +365,14 @@ function generateRecommendations(
       const isMediumTerm = user.risk_tolerance === 'moderate';
       const isLongTerm = user.risk_tolerance === 'aggressive';
 
-      // Check for upcoming liquidity needs
+      // Check for upcoming liquidity needs, net of expected inflows
       const nextSixMonths = addMonths(today, 6);
       const liquidityNeeds = events
         .filter(event => {
           const eventDate = new Date(event.date);
           return eventDate > today && eventDate <= nextSixMonths && event.currency === asset.currency;
         })
-        .reduce((total, event) => total + event.amount, 0);
+        .reduce((total, event) => total - getSignedAmount(event), 0);
 
       const hasLiquidityNeeds = liquidityNeeds > 0;
 
@@ -345,21 +393,20 @@ function generateRecommendations(
                               asset.type.includes('treasury') ? 'treasuryBill' : asset.type;
 
         // Make sure the asset type exists in our rate database, otherwise use a default
-        const validRegion = (asset.region in approximateRates) ? asset.region : 'global';
+        const region = (asset.region in rates) ? asset.region : 'global';
 
-        if (!approximateRates[validRegion]?.[assetTypeForRate]) {
+        if (!rates[region]?.[assetTypeForRate]) {
           assetTypeForRate = asset.issuer_type === 'corporate' ? 'corporateBond' : 'governmentBond';
         }
 
         // Suggest options based on risk profile
-        const region = (asset.region in approximateRates) ? asset.region : 'global';
 
         if (isShortTerm) {
-          rolloverOptions.push(`Consider a 3-6 month ${assetTypeForRate} at approximately ${getApproximateRate(region, assetTypeForRate, 'short', approximateRates)}%`);
+          rolloverOptions.push(`Consider a 3-6 month ${assetTypeForRate} at approximately ${getApproximateRate(region, assetTypeForRate, 'short', rates)}%`);
         } else if (isMediumTerm) {
-          rolloverOptions.push(`Consider a 1-year ${assetTypeForRate} at approximately ${getApproximateRate(region, assetTypeForRate, 'medium', approximateRates)}%`);
+          rolloverOptions.push(`Consider a 1-year ${assetTypeForRate} at approximately ${getApproximateRate(region, assetTypeForRate, 'medium', rates)}%`);
         } else if (isLongTerm) {
-          rolloverOptions.push(`Consider a 2+ year ${assetTypeForRate} at approximately ${getApproximateRate(region, assetTypeForRate, 'long', approximateRates)}%`);
+          rolloverOptions.push(`Consider a 2+ year ${assetTypeForRate} at approximately ${getApproximateRate(region, assetTypeForRate, 'long', rates)}%`);
         }
 
         // Add a cross-currency suggestion if appropriate
@@ -367,8 +414,13 @@ function generateRecommendations(
           const alternateRegion = userRegion === 'eurozone' ? 'uk' : 'eurozone';
           const alternateType = asset.issuer_type === 'corporate' ? 'corporateBond' : 'governmentBond';
           const term = isMediumTerm ? 'medium' : 'long';
-          rolloverOptions.push(`For diversification, consider a ${alternateRegion === 'eurozone' ? 'Eurozone' : 'UK'} ${alternateType} at approximately ${getApproximateRate(alternateRegion, alternateType, term, approximateRates)}%`);
+          rolloverOptions.push(`For diversification, consider a ${alternateRegion === 'eurozone' ? 'Eurozone' : 'UK'} ${alternateType} at approximately ${getApproximateRate(alternateRegion, alternateType, term, rates)}%`);
         }
+
+        const curve = getLatestMarketData(marketData, region, today);
+        rolloverOptions.push(curve
+          ? `Rates are based on the ${REGIONS.find(r => r.code === region)?.name || region} yield curve as of ${format(parseISO(curve.date), 'MMM d, yyyy')}`
+          : 'Rates are approximate; no yield curve has been uploaded for this region');
       }
 
       recommendations.push({
@@ -383,15 +435,6 @@ function generateRecommendations(
 
   // 2. DIVERSIFICATION RECOMMENDATIONS
   if (assets.length >= 2) {
-    // Group assets by type group
-    const assetGroups = {
-      government: ['governmentBond', 'treasuryBill', 'treasuryNote', 'treasuryBond', 'gilts', 'bunds', 'OATs', 'BTPs', 'inflationLinkedBond'],
-      corporate: ['corporateBond', 'structuredNote', 'subordinatedBond', 'perpetualBond'],
-      municipal: ['municipalBond'],
-      savings: ['CD', 'savingsBond', 'moneyMarket'],
-      other: ['other']
-    };
-
     // Calculate asset distribution by group using market value
     const assetTypeDistribution: Record<string, number> = {
       government: 0,
@@ -405,22 +448,15 @@ function generateRecommendations(
     const regionDistribution: Record<string, number> = {};
     const currencyDistribution: Record<string, number> = {};
 
-    // Use market value for calculations instead of face value
-    const totalPortfolioValue = getTotalMarketValue(assets);
+    // Use market value in the reporting currency for calculations instead of face value
+    const totalPortfolioValue = getTotalMarketValue(reportingAssets);
 
     assets.forEach(asset => {
-      // Get the market value of the asset
-      const marketValue = getMarketValue(asset);
+      // Get the market value of the asset in the reporting currency
+      const marketValue = getReportingMarketValue(asset, fx);
 
       // Map asset to group
-      let group = 'other';
-      for (const [groupName, types] of Object.entries(assetGroups)) {
-        if (types.includes(asset.type)) {
-          group = groupName;
-          break;
-        }
-      }
-      assetTypeDistribution[group] += marketValue;
+      assetTypeDistribution[getAssetGroup(asset)] += marketValue;
 
       // Track region
       regionDistribution[asset.region] = (regionDistribution[asset.region] || 0) + marketValue;
@@ -443,34 +479,9 @@ function generateRecommendations(
     }
 
     // Create diversification recommendations based on user risk profile
-    // For each risk profile, define ideal distributions
-    let idealDistribution: Record<string, [number, number]>;
-
-    if (user.risk_tolerance === 'conservative') {
-      idealDistribution = {
-        government: [40, 70],
-        corporate: [10, 30],
-        municipal: [0, 20],
-        savings: [10, 30],
-        other: [0, 10]
-      };
-    } else if (user.risk_tolerance === 'moderate') {
-      idealDistribution = {
-        government: [30, 50],
-        corporate: [20, 40],
-        municipal: [0, 30],
-        savings: [5, 20],
-        other: [0, 15]
-      };
-    } else {
-      idealDistribution = {
-        government: [15, 40],
-        corporate: [30, 60],
-        municipal: [0, 40],
-        savings: [0, 15],
-        other: [0, 20]
-      };
-    }
+    // Each risk profile defines ideal allocation bands per asset group
+    const idealDistribution: Record<string, [number, number]> =
+      ALLOCATION_BANDS[user.risk_tolerance] || ALLOCATION_BANDS.aggressive;
 
     // Check for imbalances
     const imbalances = [];
@@ -487,6 +498,36 @@ function generateRecommendations(
     }
 
     if (imbalances.length > 0) {
+      // Find the smallest set of trades that restores the bands, buying local-currency instruments;
+      // holdings are restated in the reporting currency, so every trade amount is in it too
+      const rebalanceCandidates = buildCandidateUniverse(rates, today)
+        .filter(candidate => candidate.currency === userCurrency);
+      const rebalance = rebalancePortfolio(user, reportingAssets, rebalanceCandidates);
+
+      if (rebalance.status === 'optimal' && rebalance.trades.length > 0) {
+        rebalance.trades.slice(0, 5).forEach(trade => {
+          const gain = trade.action === 'sell' && Math.abs(trade.realizedGain) >= 1
+            ? ` (realizes a ${trade.realizedGain >= 0 ? 'gain' : 'loss'} of ${formatCurrency(Math.abs(trade.realizedGain), userCurrency as CurrencyCode)})`
+            : '';
+          imbalances.push(`${trade.action === 'buy' ? 'Buy' : 'Sell'} ${formatCurrency(trade.faceValue, userCurrency as CurrencyCode)} face of ${trade.asset.name}${gain}`);
+        });
+        if (rebalance.trades.length > 5) {
+          imbalances.push(`...and ${rebalance.trades.length - 5} more trades`);
+        }
+        imbalances.push(`Estimated trading costs: ${formatCurrency(rebalance.totalCost, userCurrency as CurrencyCode)}`);
+      }
+
+      // Without selling, direct maturing proceeds to the underweight groups instead
+      const newCashRebalance = rebalancePortfolio(user, reportingAssets, rebalanceCandidates, { mode: 'newCashOnly' });
+      if (newCashRebalance.status === 'optimal' && newCashRebalance.maturingProceeds > 0) {
+        const purchases = newCashRebalance.trades
+          .map(trade => `${formatCurrency(trade.marketValue, userCurrency as CurrencyCode)} of ${trade.asset.name}`)
+          .slice(0, 3);
+        if (purchases.length > 0) {
+          imbalances.push(`To avoid selling, reinvest the ${formatCurrency(newCashRebalance.maturingProceeds, userCurrency as CurrencyCode)} maturing over the next year into ${purchases.join(', ')}`);
+        }
+      }
+
       recommendations.push({
         category: 'diversification',
         title: 'Portfolio Balance Optimization',
@@ -537,6 +578,11 @@ function generateRecommendations(
 
       currencySuggestions.push(`${dominantCurrency[0]} represents ${dominantCurrency[1].toFixed(1)}% of your portfolio value`);
 
+      const rateDate = fx.getRateDate(Object.keys(currencyDistribution));
+      if (rateDate) {
+        currencySuggestions.push(`Values converted to ${userCurrency} at exchange rates as of ${format(parseISO(rateDate), 'MMM d, yyyy')}`);
+      }
+
       recommendations.push({
         category: 'currency',
         title: 'Currency Diversification',
@@ -546,6 +592,76 @@ function generateRecommendations(
     }
   }
 
+  // 2.3 ISSUER AND SECTOR CONCENTRATION RECOMMENDATIONS
+  // Compare single-name, issuer group and sector exposure with the limits of the risk profile
+  const concentration = analyzeConcentration(reportingAssets, CONCENTRATION_LIMITS_BY_PROFILE[user.risk_tolerance]);
+  if (concentration.breaches.length > 0) {
+    const concentrationActions = concentration.breaches.slice(0, 5).map(({ level, group, excess }) => {
+      const subject = level === 'issuer' ? group.name : level === 'parent' ? `The ${group.name} group` : `The ${group.name} sector`;
+      return `${subject} is ${(group.weight * 100).toFixed(1)}% of your portfolio against a ${(group.limit! * 100).toFixed(0)}% limit; reduce it by ${formatCurrency(excess, userCurrency as CurrencyCode)}`;
+    });
+    if (concentration.breaches.length > 5) {
+      concentrationActions.push(`...and ${concentration.breaches.length - 5} more exposures above their limits`);
+    }
+    concentrationActions.push(
+      `Issuer concentration index (HHI) of ${concentration.issuerHhi.toFixed(0)}, equivalent to ${concentration.effectiveIssuers.toFixed(1)} equally weighted issuers`
+    );
+
+    recommendations.push({
+      category: 'concentration',
+      title: 'Single-Name Concentration',
+      description: `Some exposures exceed the limits of your ${user.risk_tolerance} risk profile; a default or downgrade there would hit the portfolio hard:`,
+      actionItems: concentrationActions
+    });
+  }
+
+  // 2.4 CREDIT RISK RECOMMENDATIONS
+  // Compare the expected default loss and rating quality with what the risk profile tolerates
+  const creditRisk = calculatePortfolioCreditRisk(reportingAssets);
+  if (creditRisk.exposure > 0) {
+    const creditSuggestions = [];
+    const maxLossBps = MAX_EXPECTED_LOSS_BPS_BY_PROFILE[user.risk_tolerance];
+    const minRating = MIN_RATING_BY_PROFILE[user.risk_tolerance];
+    const minNotch = getRatingNotch(minRating);
+
+    const belowMinimum = minNotch === null ? [] : creditRisk.assets.filter(risk =>
+      risk.rating && risk.exposure > 0 && CREDIT_RATINGS.indexOf(risk.rating) + 1 > minNotch
+    );
+    const belowMinimumValue = belowMinimum.reduce((sum, risk) => sum + risk.exposure, 0);
+    const unratedShare = creditRisk.unratedValue / creditRisk.exposure * 100;
+
+    if (creditRisk.expectedLossBps > maxLossBps) {
+      creditSuggestions.push(`Expected default losses of ${creditRisk.expectedLossBps.toFixed(1)} bp a year exceed the ${maxLossBps} bp suited to a ${user.risk_tolerance} profile`);
+      [...creditRisk.assets]
+        .sort((a, b) => b.expectedLoss - a.expectedLoss)
+        .slice(0, 3)
+        .filter(risk => risk.expectedLoss > 0)
+        .forEach(risk => {
+          creditSuggestions.push(`${risk.asset.name} (${risk.rating || `unrated, assumed ${risk.assumedRating}`}) accounts for ${formatCurrency(risk.expectedLoss, userCurrency as CurrencyCode)} of expected loss a year`);
+        });
+    }
+
+    if (belowMinimum.length > 0) {
+      creditSuggestions.push(`${(belowMinimumValue / creditRisk.exposure * 100).toFixed(1)}% of your portfolio is rated below ${minRating}: ${belowMinimum.slice(0, 3).map(risk => risk.asset.name).join(', ')}${belowMinimum.length > 3 ? ` and ${belowMinimum.length - 3} more` : ''}`);
+    }
+
+    if (unratedShare > 25) {
+      creditSuggestions.push(`${unratedShare.toFixed(0)}% of your portfolio is unrated; add ratings so losses are not estimated from issuer type alone`);
+    }
+
+    if (creditSuggestions.length > 0) {
+      const weightedYield = calculateWeightedAverage(reportingAssets, calculateYTW);
+      creditSuggestions.push(`Net of expected losses your yield is ${(weightedYield - creditRisk.expectedLossBps / 100).toFixed(2)}% rather than ${weightedYield.toFixed(2)}%`);
+
+      recommendations.push({
+        category: 'credit',
+        title: 'Credit Quality Review',
+        description: `Your holdings average ${creditRisk.averageRating} with ${formatCurrency(creditRisk.lifetimeExpectedLoss, userCurrency as CurrencyCode)} of expected default losses to maturity:`,
+        actionItems: creditSuggestions
+      });
+    }
+  }
+
   // 3. BOND LADDERING RECOMMENDATIONS
   // If there are enough assets to create a ladder or existing maturity clustering
   if (assets.length >= 3) {
@@ -604,9 +720,38 @@ function generateRecommendations(
       }
 
       if (missingYears.length > 0) {
-        // Suggest filling gaps in the ladder
-        for (let i = 0; i < Math.min(3, missingYears.length); i++) {
-          suggestedLadderStrategy.push(`Consider adding securities maturing in ${missingYears[i]} to complete your ladder`);
+        // Redeploy principal redeemed over the next year into an even ladder across the next five
+        // years, counting holdings in every currency at their reporting-currency value
+        const redemptions = reportingAssets
+          .flatMap(asset => generateCashFlowSchedule(asset, { from: today, to: addMonths(today, 12) }))
+          .filter(flow => flow.type === 'principal')
+          .reduce((sum, flow) => sum + flow.amount, 0);
+
+        const ladder = redemptions > 0
+          ? buildLadder(reportingAssets, {
+              budget: redemptions,
+              startYear: currentYear + 1,
+              endYear: currentYear + 5,
+              spacing: 1,
+              currency: userCurrency,
+              region: userRegion,
+              riskTolerance: user.risk_tolerance
+            }, rates, today)
+          : null;
+        const rungPurchases = ladder?.rungs.filter(rung => rung.purchase) || [];
+
+        if (rungPurchases.length > 0) {
+          rungPurchases.slice(0, 3).forEach(rung => {
+            suggestedLadderStrategy.push(`Buy ${formatCurrency(rung.purchase!.amount, userCurrency as CurrencyCode)} of a ${ASSET_TYPE_NAMES[rung.purchase!.type]} maturing in ${rung.year} at approximately ${rung.purchase!.rate}%`);
+          });
+          if (rungPurchases.length > 3) {
+            suggestedLadderStrategy.push(`Use the ladder builder to see all ${rungPurchases.length} rungs and their projected cash flows`);
+          }
+        } else {
+          // Suggest filling gaps in the ladder
+          for (let i = 0; i < Math.min(3, missingYears.length); i++) {
+            suggestedLadderStrategy.push(`Consider adding securities maturing in ${missingYears[i]} to complete your ladder`);
+          }
         }
       }
 
@@ -621,11 +766,60 @@ function generateRecommendations(
     }
   }
 
+  // 3.1 IMMUNIZATION RECOMMENDATIONS
+  // Protect the present value of upcoming liquidity needs against parallel rate moves
+  // Holdings and outflows in every currency count, restated in the reporting currency
+  const liabilities = getLiabilities(reportingEvents, userCurrency, today);
+  if (liabilities.length > 0 && reportingAssets.length > 0) {
+    const immunization = immunizePortfolio({
+      assets: reportingAssets,
+      candidates: buildCandidateUniverse(rates, today),
+      liabilities,
+      currency: userCurrency,
+      discountRate: getApproximateRate(userRegion, 'governmentBond', 'medium', rates),
+      settlement: today
+    });
+    const currency = userCurrency as CurrencyCode;
+    const shockBefore = immunization.before.shifts.find(shift => shift.shiftBps === 100)!;
+
+    if (immunization.status !== 'optimal') {
+      recommendations.push({
+        category: 'immunization',
+        title: 'Liabilities Cannot Be Immunized',
+        description: `Your liquidity needs are worth ${formatCurrency(immunization.liabilityValue, currency)} today and cannot be fully protected from rate moves:`,
+        actionItems: [
+          immunization.before.surplus < 0
+            ? `Your assets are worth ${formatCurrency(immunization.before.assetValue, currency)}, a shortfall of ${formatCurrency(-immunization.before.surplus, currency)}`
+            : `No mix of available ${userCurrency} instruments matches the ${immunization.liabilityDuration.toFixed(2)}-year duration of your liabilities`,
+          `A 1% rise in rates would change your surplus by ${formatCurrency(shockBefore.surplusChange, currency)}`
+        ]
+      });
+    } else if (immunization.trades.length > 0) {
+      const shockAfter = immunization.after.shifts.find(shift => shift.shiftBps === 100)!;
+      const immunizationActions = immunization.trades.slice(0, 5).map(trade =>
+        `${trade.action === 'buy' ? 'Buy' : 'Sell'} ${formatCurrency(trade.marketValue, trade.asset.currency as CurrencyCode)} of ${trade.asset.name}`
+      );
+      immunizationActions.push(
+        `Asset duration moves from ${immunization.before.assetDuration.toFixed(2)} to ${immunization.after.assetDuration.toFixed(2)} years against ${immunization.liabilityDuration.toFixed(2)} for your liabilities`
+      );
+      immunizationActions.push(
+        `A 1% rise in rates would change your surplus by ${formatCurrency(shockAfter.surplusChange, currency)} instead of ${formatCurrency(shockBefore.surplusChange, currency)}`
+      );
+
+      recommendations.push({
+        category: 'immunization',
+        title: 'Immunize Your Liquidity Needs',
+        description: `Your liquidity needs are worth ${formatCurrency(immunization.liabilityValue, currency)} today. Matching their duration and convexity protects your surplus of ${formatCurrency(immunization.after.surplus, currency)} from rate moves:`,
+        actionItems: immunizationActions
+      });
+    }
+  }
+
   // 4. LIQUIDITY PLANNING RECOMMENDATIONS
-  if (events.length > 0) {
+  if (reportingEvents.length > 0) {
     // Track liquidity needs and available funds by month for the next 24 months
     // This provides a more granular view than quarterly analysis
-    const liquidityByMonth: Record<string, { needs: number; maturities: number; date: Date }> = {};
+    const liquidityByMonth: Record<string, { needs: number; inflows: number; date: Date }> = {};
 
     // Initialize monthly tracking for next 24 months
     for (let i = 0; i < 24; i++) {
@@ -633,13 +827,13 @@ function generateRecommendations(
       const monthKey = format(monthDate, "yyyy-MM");
       liquidityByMonth[monthKey] = {
         needs: 0,
-        maturities: 0,
+        inflows: 0,
         date: monthDate
       };
     }
 
-    // Calculate liquidity needs by month
-    events.forEach(event => {
+    // Calculate liquidity needs and expected inflows by month, in the reporting currency
+    reportingEvents.forEach(event => {
       const eventDate = new Date(event.date);
       if (eventDate < today) return;
 
@@ -648,26 +842,25 @@ function generateRecommendations(
 
       const monthKey = format(eventDate, "yyyy-MM");
       if (liquidityByMonth[monthKey] && event.currency === userCurrency) {
-        liquidityByMonth[monthKey].needs += event.amount;
+        if (isInflow(event)) {
+          liquidityByMonth[monthKey].inflows += event.amount;
+        } else {
+          liquidityByMonth[monthKey].needs += event.amount;
+        }
       }
     });
 
-    // Calculate asset maturities by month - use face value for maturity proceeds
-    assets.forEach(asset => {
-      // Skip perpetual bonds since they don't mature
-      if (asset.type === 'perpetualBond') return;
+    // Calculate asset inflows by month - coupons and redemptions from each cash-flow schedule
+    const horizon = addMonths(today, 24);
+    reportingAssets.forEach(asset => {
+      if (asset.currency !== userCurrency) return;
 
-      const maturityDate = new Date(asset.maturity_date);
-      if (maturityDate < today) return;
-
-      const monthDiff = differenceInMonths(maturityDate, today);
-      if (monthDiff >= 24) return; // Only consider next 24 months
-
-      const monthKey = format(maturityDate, "yyyy-MM");
-      if (liquidityByMonth[monthKey] && asset.currency === userCurrency) {
-        // Use face_value for maturities - this is what an investor receives at maturity
-        liquidityByMonth[monthKey].maturities += asset.face_value;
-      }
+      generateCashFlowSchedule(asset, { from: today, to: horizon }).forEach(flow => {
+        const monthKey = format(flow.date, "yyyy-MM");
+        if (liquidityByMonth[monthKey]) {
+          liquidityByMonth[monthKey].inflows += flow.amount;
+        }
+      });
     });
 
     // Track cumulative liquidity position - how cash flows accumulate over time
@@ -680,25 +873,42 @@ function generateRecommendations(
     const sortedMonths = Object.keys(liquidityByMonth).sort();
 
     sortedMonths.forEach(month => {
-      const { needs, maturities, date } = liquidityByMonth[month];
-      const monthlyNetFlow = maturities - needs;
+      const { needs, inflows, date } = liquidityByMonth[month];
+      const monthlyNetFlow = inflows - needs;
       cumulativePosition += monthlyNetFlow;
 
       // Track months with significant shortfalls/surpluses
       if (needs > 0) {
-        if (maturities < needs) {
-          shortfallMonths.push(`${format(date, "MMM yyyy")}: ${formatCurrency(needs - maturities, userCurrency as CurrencyCode)} shortfall`);
+        if (inflows < needs) {
+          shortfallMonths.push(`${format(date, "MMM yyyy")}: ${formatCurrency(needs - inflows, userCurrency as CurrencyCode)} shortfall`);
 
           // Critical if shortfall is significant (>20% of total need) AND cumulative position is negative
-          if ((needs - maturities) > needs * 0.2 && cumulativePosition < 0) {
+          if ((needs - inflows) > needs * 0.2 && cumulativePosition < 0) {
             criticalShortfalls.push(format(date, "MMM yyyy"));
           }
-        } else if (maturities > needs * 1.5) {
-          surplusMonths.push(`${format(date, "MMM yyyy")}: ${formatCurrency(maturities - needs, userCurrency as CurrencyCode)} surplus`);
+        } else if (inflows > needs * 1.5) {
+          surplusMonths.push(`${format(date, "MMM yyyy")}: ${formatCurrency(inflows - needs, userCurrency as CurrencyCode)} surplus`);
         }
       }
     });
 
+    // Stress the plan with simulated early-sale prices and uncertain event amounts and dates
+    const stress = simulateLiquidityCoverage(
+      reportingAssets.filter(asset => asset.currency === userCurrency),
+      reportingEvents.filter(event => event.currency === userCurrency),
+      { marketData, settlement: today, horizonMonths: 24, paths: LIQUIDITY_STRESS_PATHS }
+    );
+    const uncoveredEvents = stress.events.filter(coverage => coverage.probability < MIN_LIQUIDITY_COVERAGE);
+    const stressActions = uncoveredEvents
+      .slice(0, 3)
+      .map(({ event, probability, averageForcedLoss }) =>
+        `Only ${(probability * 100).toFixed(0)}% confident the ${format(parseISO(event.date), "MMM yyyy")} ${event.description} is covered without selling at a loss` +
+        (averageForcedLoss > 0 ? ` (average loss ${formatCurrency(averageForcedLoss, userCurrency as CurrencyCode)} when it is not)` : '')
+      );
+    if (uncoveredEvents.length > 3) {
+      stressActions.push(`${uncoveredEvents.length - 3} more expenses fall below ${(MIN_LIQUIDITY_COVERAGE * 100).toFixed(0)}% confidence`);
+    }
+
     // Identify assets that could potentially be sold before maturity to cover shortfalls
     // For pre-maturity sales, we need to use market value instead of face value
     const assetsAvailableForSale: { asset: FixedIncomeAsset; marketValue: number }[] = [];
@@ -707,7 +917,7 @@ function generateRecommendations(
       // Find the earliest critical shortfall date
       const earliestCriticalDate = new Date(criticalShortfalls[0] + "-01");
 
-      assets.forEach(asset => {
+      reportingAssets.forEach(asset => {
         if (asset.type === 'perpetualBond') {
           // Perpetual bonds can be sold at market value anytime
           assetsAvailableForSale.push({
@@ -780,12 +990,25 @@ function generateRecommendations(
         liquidityActions.push('Adjust your maturity ladder to better match cash flow needs with maturities');
       }
 
+      liquidityActions.push(...stressActions);
+
       recommendations.push({
         category: 'liquidity',
         title: 'Liquidity Risk Management',
         description: 'Your upcoming expenses require careful liquidity planning:',
         actionItems: liquidityActions
       });
+    } else if (uncoveredEvents.length > 0) {
+      // The plan balances on expected values, but not in enough of the simulated paths
+      recommendations.push({
+        category: 'liquidity',
+        title: 'Liquidity Under Stress',
+        description: `Your cash flows cover upcoming expenses as planned, but rate moves and expenses that come early or cost more could force a sale at a loss in ${((1 - stress.probabilityAllCovered) * 100).toFixed(0)}% of ${stress.paths} simulated paths:`,
+        actionItems: [
+          ...stressActions,
+          'Hold more of the portfolio in bonds maturing shortly before these expenses, or keep a cash buffer'
+        ]
+      });
     } else if (surplusMonths.length > 0) {
       // If no shortfalls but significant surpluses, suggest reinvestment strategies
       recommendations.push({
@@ -795,7 +1018,10 @@ function generateRecommendations(
         actionItems: [
           `Upcoming surplus periods: ${surplusMonths.slice(0, 3).join(', ')}${surplusMonths.length > 3 ? ` and ${surplusMonths.length - 3} more` : ''}`,
           'Consider pre-planning reinvestment options for these surplus periods',
-          'Look for attractive fixed income opportunities in advance of maturity dates'
+          'Look for attractive fixed income opportunities in advance of maturity dates',
+          ...(stress.events.length > 0
+            ? [`${(stress.probabilityAllCovered * 100).toFixed(0)}% confident every expense in the next 24 months is covered without selling at a loss`]
+            : [])
         ]
       });
     }
@@ -806,12 +1032,8 @@ function generateRecommendations(
   if (assets.length >= 3) {
     const yieldSuggestions = [];
 
-    // Calculate weighted average yield using YTM
-    const totalValue = getTotalMarketValue(assets);
-    const weightedYield = assets.reduce(
-      (sum, asset) => sum + (calculateYTM(asset) * getMarketValue(asset)),
-      0
-    ) / totalValue;
+    // Calculate weighted average yield using the yield to worst of each asset
+    const weightedYield = calculateWeightedAverage(reportingAssets, calculateYTW);
 
     // Use appropriate thresholds based on actual YTM calculations
     if (userRegion === 'eurozone' && weightedYield < 3.0) {
@@ -823,6 +1045,38 @@ function generateRecommendations(
       yieldSuggestions.push('UK corporate bonds offer a yield premium over government securities');
     }
 
+    // Compare with the yield-optimal portfolio that still respects the profile's constraints
+    // Candidates are restated in the reporting currency like the holdings, so the budget, band and
+    // issuer limits add up amounts in one currency
+    const optimization = optimizePortfolio({
+      user,
+      assets: reportingAssets,
+      candidates: convertAssets(buildCandidateUniverse(rates, today), fx),
+      events: reportingEvents,
+      constraints: {
+        maxIssuerWeight: CONCENTRATION_LIMITS_BY_PROFILE[user.risk_tolerance].maxIssuerWeight,
+        issuerLimitExemptTypes: CONCENTRATION_LIMITS_BY_PROFILE[user.risk_tolerance].exemptIssuerTypes,
+        minRating: MIN_RATING_BY_PROFILE[user.risk_tolerance]
+      }
+    });
+
+    if (optimization.status === 'optimal' && optimization.trades.length > 0 &&
+        optimization.expectedYield > weightedYield + 0.1) {
+      const optimalTrades = optimization.trades.slice(0, 5).map(trade =>
+        `${trade.action === 'buy' ? 'Buy' : 'Sell'} ${formatCurrency(trade.marketValue, userCurrency as CurrencyCode)} of ${trade.asset.name}`
+      );
+      if (optimization.trades.length > 5) {
+        optimalTrades.push(`...and ${optimization.trades.length - 5} more trades`);
+      }
+
+      recommendations.push({
+        category: 'yield',
+        title: 'Optimal Target Portfolio',
+        description: `Within your ${user.risk_tolerance} allocation bands, issuer and rating limits, these trades raise your yield from ${weightedYield.toFixed(2)}% to ${optimization.expectedYield.toFixed(2)}%:`,
+        actionItems: optimalTrades
+      });
+    }
+
     if (yieldSuggestions.length > 0) {
       recommendations.push({
         category: 'yield',
@@ -842,7 +1096,7 @@ function getApproximateRate(
   region: string,
   assetType: string,
   term: 'short' | 'medium' | 'long',
-  ratesDb: Record<string, Record<string, Record<string, number>>>
+  ratesDb: RateTable
 ): number {
   try {
     if (region in ratesDb && assetType in ratesDb[region] && term in ratesDb[region][assetType]) {
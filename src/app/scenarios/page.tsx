@@ -0,0 +1,140 @@
+'use client';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CurrencyRate, FixedIncomeAsset, RegionalMarketData, User } from '@/types';
+import { useAuth } from '@/components/AuthProvider';
+import Navbar from '@/components/Navbar';
+import ScenarioAnalysis from '@/components/ScenarioAnalysis';
+import ValueAtRisk from '@/components/ValueAtRisk';
+import { createFxConverter } from '@/lib/fx';
+import { indexAssets } from '@/lib/inflation';
+import { priceAssets } from '@/lib/pricing';
+
+export default function Scenarios() {
+  const { user: authUser, loading: authLoading } = useAuth();
+  const [assets, setAssets] = useState<FixedIncomeAsset[]>([]);
+  const [marketData, setMarketData] = useState<RegionalMarketData[]>([]);
+  const [currencyRates, setCurrencyRates] = useState<CurrencyRate[]>([]);
+  const [dataLoading, setDataLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchScenarioData = useCallback(async () => {
+    if (!authUser?.id) return;
+
+    try {
+      setDataLoading(true);
+      setError(null);
+
+      const [assetsResponse, marketDataResponse, ratesResponse] = await Promise.all([
+        fetch('/api/assets'),
+        fetch('/api/market-data'),
+        fetch('/api/currency-rates')
+      ]);
+
+      if (!assetsResponse.ok) {
+        const errorData = await assetsResponse.json();
+        throw new Error(errorData.details || 'Failed to fetch assets');
+      }
+
+      const assetsData: FixedIncomeAsset[] = await assetsResponse.json();
+      setAssets((assetsData || []).map(asset => ({
+        ...asset,
+        currency: asset.currency || authUser.currency || 'EUR',
+        region: asset.region || authUser.country || 'eurozone'
+      })));
+
+      // Curves and exchange rates are optional, as on the dashboard
+      if (marketDataResponse.ok) {
+        setMarketData(await marketDataResponse.json());
+      } else {
+        console.error('Failed to fetch market data, repricing at each holding\'s own yield');
+      }
+      if (ratesResponse.ok) {
+        setCurrencyRates(await ratesResponse.json());
+      } else {
+        console.error('Failed to fetch currency rates, using approximate rates');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scenario data');
+    } finally {
+      setDataLoading(false);
+    }
+  }, [authUser]);
+
+  useEffect(() => {
+    if (!authLoading && authUser) {
+      fetchScenarioData();
+    }
+  }, [authUser, authLoading, fetchScenarioData]);
+
+  const pricedAssets = useMemo(() => priceAssets(indexAssets(assets, marketData), marketData), [assets, marketData]);
+  const fx = useMemo(
+    () => createFxConverter(currencyRates, authUser?.currency || 'EUR'),
+    [currencyRates, authUser?.currency]
+  );
+
+  if (authLoading || dataLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <p className="text-gray-600 dark:text-gray-300 font-medium">Loading scenarios...</p>
+      </div>
+    );
+  }
+
+  if (!authUser) {
+    return (
+      <div className="flex justify-center items-center min-h-screen px-4">
+        <div className="bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 p-4 rounded max-w-md w-full text-center">
+          <h2 className="font-bold text-lg mb-2">Authentication Required</h2>
+          <p>Please log in to run rate scenarios.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Navbar user={authUser as User} />
+      <main className="dashboard-layout pt-20">
+        <header className="dashboard-header mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Rate Scenarios
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400 mt-1">
+              Reprice your holdings under parallel shifts, twists and key-rate bumps, and simulate value at risk
+            </p>
+          </div>
+        </header>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/30 rounded-md text-red-800 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="puzzle-item">
+          <div className="puzzle-item-content">
+            <ScenarioAnalysis
+              assets={pricedAssets}
+              marketData={marketData}
+              user={authUser as User}
+              fx={fx}
+            />
+          </div>
+        </div>
+
+        <div className="puzzle-item mt-6">
+          <div className="puzzle-item-content">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Monte Carlo Value at Risk</h2>
+            <ValueAtRisk
+              assets={pricedAssets}
+              marketData={marketData}
+              user={authUser as User}
+              fx={fx}
+            />
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,16 +1,20 @@
 'use client';
 import { useState, useCallback, useMemo } from 'react';
-import { FixedIncomeAsset, CURRENCIES, REGIONS, AssetType, InterestFrequency, IssuerType, RatingAgency, RegionCode, CurrencyCode } from '@/types';
+import { FixedIncomeAsset, CURRENCIES, REGIONS, SECTORS, DAY_COUNT_NAMES, AssetType, InterestFrequency, IssuerType, RatingAgency, RegionCode, CurrencyCode, DayCountConvention, CallScheduleEntry, SectorCode } from '@/types';
 import { parseInputValue, formatNumberWithCommas } from '@/lib/utils';
+import { validateAsset } from '@/lib/validation';
 
 // Custom hook for asset form logic
-function useAssetForm(userId: string, userCurrency: string = 'EUR', userCountry: string = 'eurozone') {
-  const initialFormState = useMemo(() => ({
+function useAssetForm(userId: string, userCurrency: string = 'EUR', userCountry: string = 'eurozone', asset?: FixedIncomeAsset) {
+  const blankFormState = useMemo(() => ({
     id: '',
     user_id: userId,
     type: 'governmentBond' as AssetType,
     issuer_type: 'government' as IssuerType,
     name: '',
+    issuer: '',
+    issuer_parent: '',
+    sector: '' as SectorCode | '',
     purchase_date: null as string | null,
     maturity_date: null as string | null,
     face_value: 0,
@@ -19,15 +23,55 @@ function useAssetForm(userId: string, userCurrency: string = 'EUR', userCountry:
     interest_rate: 0,
     currency: userCurrency as CurrencyCode,
     interest_payment_frequency: 'semiannual' as InterestFrequency,
+    day_count: '' as DayCountConvention | '',
     rating: '',
     rating_agency: 'none' as RatingAgency,
     region: userCountry as RegionCode,
     taxable: true,
     esg_rating: '',
     callable: false,
-    call_date: null as string | null
+    call_date: null as string | null,
+    call_schedule: [] as CallScheduleEntry[],
+    spread_override: '' as string | number,
+    base_cpi: '' as string | number
   }), [userId, userCurrency, userCountry]);
 
+  // When editing, start from the stored asset
+  const initialFormState = useMemo(() => {
+    if (!asset) return blankFormState;
+    return {
+      ...blankFormState,
+      id: asset.id,
+      type: asset.type,
+      issuer_type: asset.issuer_type,
+      name: asset.name,
+      issuer: asset.issuer || '',
+      issuer_parent: asset.issuer_parent || '',
+      sector: asset.sector || '',
+      purchase_date: asset.purchase_date || null,
+      maturity_date: asset.maturity_date || null,
+      face_value: asset.face_value,
+      purchase_price: asset.purchase_price,
+      current_price: asset.current_price || 0,
+      interest_rate: asset.interest_rate,
+      currency: asset.currency as CurrencyCode,
+      interest_payment_frequency: asset.interest_payment_frequency,
+      day_count: asset.day_count || '',
+      rating: asset.rating || '',
+      rating_agency: asset.rating_agency || 'none',
+      region: asset.region as RegionCode,
+      taxable: !!asset.taxable,
+      esg_rating: asset.esg_rating || '',
+      callable: !!asset.callable,
+      call_date: asset.call_date || null,
+      call_schedule: asset.call_schedule?.length
+        ? asset.call_schedule
+        : asset.call_date ? [{ date: asset.call_date, price: 100 }] : [],
+      spread_override: asset.spread_override ?? '',
+      base_cpi: asset.base_cpi ?? ''
+    };
+  }, [blankFormState, asset]);
+
   const [formData, setFormData] = useState(initialFormState);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [apiError, setApiError] = useState<string | null>(null);
@@ -39,41 +83,6 @@ function useAssetForm(userId: string, userCurrency: string = 'EUR', userCountry:
     setApiError(null);
   }, [initialFormState]);
 
-  const validateForm = useCallback(() => {
-    const errors: Record<string, string> = {};
-    
-    if (!formData.name.trim()) {
-      errors.name = 'Name is required';
-    }
-    
-    if (!formData.purchase_date) {
-      errors.purchase_date = 'Purchase date is required';
-    }
-    
-    if (!formData.maturity_date && formData.type !== 'perpetualBond') {
-      errors.maturity_date = 'Maturity date is required';
-    }
-    
-    if (formData.face_value <= 1000) {
-      errors.face_value = 'Face value must be greater than 1,000';
-    }
-    
-    if (formData.purchase_price <= 0) {
-      errors.purchase_price = 'Purchase price must be greater than 0';
-    }
-    
-    if (formData.interest_rate < 0 || formData.interest_rate > 100) {
-      errors.interest_rate = 'Interest rate must be between 0 and 100';
-    }
-    
-    if (formData.callable && !formData.call_date) {
-      errors.call_date = 'Call date is required for callable bonds';
-    }
-    
-    setFormErrors(errors);
-    return Object.keys(errors).length === 0;
-  }, [formData]);
-
   const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     
@@ -98,6 +107,24 @@ function useAssetForm(userId: string, userCurrency: string = 'EUR', userCountry:
     setFormData(prev => ({ ...prev, [name]: parsedValue }));
   }, []);
 
+  const addCallEntry = useCallback(() => {
+    setFormData(prev => ({ ...prev, call_schedule: [...prev.call_schedule, { date: '', price: 100 }] }));
+  }, []);
+
+  const updateCallEntry = useCallback((index: number, field: keyof CallScheduleEntry, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      call_schedule: prev.call_schedule.map((call, i) => i === index
+        ? { ...call, [field]: field === 'price' ? parseFloat(value) || 0 : value }
+        : call
+      )
+    }));
+  }, []);
+
+  const removeCallEntry = useCallback((index: number) => {
+    setFormData(prev => ({ ...prev, call_schedule: prev.call_schedule.filter((_, i) => i !== index) }));
+  }, []);
+
   const prepareFormData = useCallback(() => {
     // Clean up data before sending to API
     const { id: _ignored, ...cleanedData } = { ...formData };
@@ -106,22 +133,48 @@ function useAssetForm(userId: string, userCurrency: string = 'EUR', userCountry:
       cleanedData.maturity_date = null;
     }
     
-    if (!formData.callable) {
-      cleanedData.call_date = null;
-    }
+    // Keep the first call date alongside the full schedule
+    const callSchedule = formData.callable
+      ? formData.call_schedule.filter(call => call.date).sort((a, b) => a.date.localeCompare(b.date))
+      : [];
+    cleanedData.call_schedule = callSchedule;
+    cleanedData.call_date = callSchedule.length > 0 ? callSchedule[0].date : null;
     
-    return cleanedData;
+    // An empty day count means the market default for the asset type, an empty
+    // spread override means the spread estimated from issuer type and rating, and an
+    // empty issuer or sector falls back to the asset name and issuer type. Only
+    // inflation-linked bonds keep a base CPI; without one they index from the purchase date
+    return {
+      ...cleanedData,
+      issuer: formData.issuer.trim() || null,
+      issuer_parent: formData.issuer_parent.trim() || null,
+      sector: formData.sector || null,
+      day_count: formData.day_count || null,
+      spread_override: formData.spread_override === '' ? null : formData.spread_override,
+      base_cpi: formData.type === 'inflationLinkedBond' && formData.base_cpi !== '' ? formData.base_cpi : null
+    };
   }, [formData]);
 
+  // The same rules the API applies, so errors match whichever side catches them
+  const validateForm = useCallback(() => {
+    const errors = validateAsset(prepareFormData());
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  }, [prepareFormData]);
+
   return {
     formData,
     formErrors,
     apiError,
     isSubmitting,
     setApiError,
+    setFormErrors,
     setIsSubmitting,
     handleChange,
     handleCurrencyInput,
+    addCallEntry,
+    updateCallEntry,
+    removeCallEntry,
     validateForm,
     prepareFormData,
     resetForm
@@ -133,22 +186,30 @@ interface AssetFormProps {
   onAssetAdded: (asset: FixedIncomeAsset | null) => void;
   userCurrency?: string;
   userCountry?: string;
+  // Asset to edit; the form creates a new asset when omitted
+  asset?: FixedIncomeAsset;
 }
 
-export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR', userCountry = 'eurozone' }: AssetFormProps) {
+export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR', userCountry = 'eurozone', asset }: AssetFormProps) {
+  const isEditing = !!asset;
+
   const {
     formData,
     formErrors,
     apiError,
     isSubmitting,
     setApiError,
+    setFormErrors,
     setIsSubmitting,
     handleChange,
     handleCurrencyInput,
+    addCallEntry,
+    updateCallEntry,
+    removeCallEntry,
     validateForm,
     prepareFormData,
     resetForm
-  } = useAssetForm(userId, userCurrency, userCountry);
+  } = useAssetForm(userId, userCurrency, userCountry, asset);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -163,19 +224,25 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
     try {
       const cleanedData = prepareFormData();
       
-      const response = await fetch('/api/assets', {
-        method: 'POST',
+      // Edits send the updated_at they started from so concurrent changes are detected
+      const response = await fetch(isEditing ? `/api/assets?id=${asset.id}` : '/api/assets', {
+        method: isEditing ? 'PATCH' : 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(cleanedData)
+        body: JSON.stringify(isEditing ? { ...cleanedData, updated_at: asset.updated_at ?? null } : cleanedData)
       });
       
       const responseData = await response.json();
       
       if (!response.ok) {
-        let errorMessage = 'Failed to add asset';
-        if (responseData.details) {
+        let errorMessage = isEditing ? 'Failed to save asset' : 'Failed to add asset';
+        if (response.status === 409) {
+          errorMessage = 'This asset was changed elsewhere since you opened it. Close the form and reopen it to see the latest version.';
+        } else if (responseData.fields) {
+          setFormErrors(responseData.fields);
+        }
+        if (response.status !== 409 && responseData.details) {
           errorMessage += `: ${responseData.details}`;
           if (responseData.hint) {
             errorMessage += ` (${responseData.hint})`;
@@ -189,7 +256,7 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
       onAssetAdded(responseData);
       resetForm();
     } catch (error) {
-      console.error('Error adding asset:', error);
+      console.error(isEditing ? 'Error saving asset:' : 'Error adding asset:', error);
     } finally {
       setIsSubmitting(false);
     }
@@ -284,6 +351,47 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
                   <p className="mt-1 text-sm text-red-600">{formErrors.name}</p>
                 )}
               </div>
+              <div className="form-row">
+                <div>
+                  <label className="form-label">Issuer</label>
+                  <input
+                    type="text"
+                    name="issuer"
+                    value={formData.issuer}
+                    onChange={handleChange}
+                    className="form-input"
+                    placeholder="Same as name"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Parent Issuer</label>
+                  <input
+                    type="text"
+                    name="issuer_parent"
+                    value={formData.issuer_parent}
+                    onChange={handleChange}
+                    className="form-input"
+                    placeholder="Same as issuer"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="form-label">Sector</label>
+                <select
+                  name="sector"
+                  value={formData.sector}
+                  onChange={handleChange}
+                  className={`form-select ${formErrors.sector ? 'border-red-500' : ''}`}
+                >
+                  <option value="">From issuer type</option>
+                  {SECTORS.map(sector => (
+                    <option key={sector.code} value={sector.code}>{sector.name}</option>
+                  ))}
+                </select>
+                {formErrors.sector && (
+                  <p className="mt-1 text-sm text-red-600">{formErrors.sector}</p>
+                )}
+              </div>
             </div>
           </div>
           
@@ -333,6 +441,20 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
                   <option value="irregular">Irregular</option>
                 </select>
               </div>
+              <div>
+                <label className="form-label">Day Count Convention</label>
+                <select
+                  name="day_count"
+                  value={formData.day_count}
+                  onChange={handleChange}
+                  className="form-select"
+                >
+                  <option value="">Market default</option>
+                  {Object.entries(DAY_COUNT_NAMES).map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="form-label">Currency</label>
                 <select
@@ -513,6 +635,47 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
                   placeholder="e.g., AAA"
                 />
               </div>
+              <div>
+                <label className="form-label">Spread Override (bp)</label>
+                <input
+                  type="number"
+                  name="spread_override"
+                  value={formData.spread_override}
+                  onChange={handleChange}
+                  className={`form-input ${formErrors.spread_override ? 'border-red-500' : ''}`}
+                  placeholder="Estimated from issuer type and rating"
+                  step="1"
+                  aria-describedby="spread-override-help"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400" id="spread-override-help">
+                  Credit spread over the regional curve, used to value the asset when no current price is entered.
+                </p>
+                {formErrors.spread_override && (
+                  <p className="mt-1 text-sm text-red-600">{formErrors.spread_override}</p>
+                )}
+              </div>
+              {formData.type === 'inflationLinkedBond' && (
+                <div>
+                  <label className="form-label">Base CPI</label>
+                  <input
+                    type="number"
+                    name="base_cpi"
+                    value={formData.base_cpi}
+                    onChange={handleChange}
+                    className={`form-input ${formErrors.base_cpi ? 'border-red-500' : ''}`}
+                    placeholder="Reference CPI at the purchase date"
+                    step="any"
+                    aria-describedby="base-cpi-help"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400" id="base-cpi-help">
+                    Reference CPI on the bond&apos;s issue or dated date, from its prospectus. The index ratio is the
+                    lagged regional CPI divided by this level.
+                  </p>
+                  {formErrors.base_cpi && (
+                    <p className="mt-1 text-sm text-red-600">{formErrors.base_cpi}</p>
+                  )}
+                </div>
+              )}
               <div className="space-y-2">
                 <div className="flex items-center">
                   <input
@@ -541,16 +704,50 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
               
               {formData.callable && (
                 <div>
-                  <label className="form-label">First Call Date</label>
-                  <input
-                    type="date"
-                    name="call_date"
-                    value={formData.call_date || ''}
-                    onChange={handleChange}
-                    className={`form-input date-input w-full ${formErrors.call_date ? 'border-red-500' : ''}`}
-                  />
-                  {formErrors.call_date && (
-                    <p className="mt-1 text-sm text-red-600">{formErrors.call_date}</p>
+                  <label className="form-label">Call Schedule</label>
+                  <div className="space-y-2">
+                    {formData.call_schedule.map((call, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="date"
+                          value={call.date}
+                          onChange={(e) => updateCallEntry(index, 'date', e.target.value)}
+                          className={`form-input date-input flex-1 ${formErrors.call_date || formErrors.call_schedule ? 'border-red-500' : ''}`}
+                        />
+                        <input
+                          type="number"
+                          value={call.price}
+                          onChange={(e) => updateCallEntry(index, 'price', e.target.value)}
+                          className="form-input w-24"
+                          step="0.01"
+                          min="0"
+                          title="Call price per 100 of face value"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeCallEntry(index)}
+                          className="text-gray-400 hover:text-rose-500 dark:text-gray-500 dark:hover:text-rose-400"
+                          title="Remove call date"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={addCallEntry}
+                    className="mt-2 text-xs text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+                  >
+                    + Add Call Date
+                  </button>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Call prices are quoted per 100 of face value.
+                  </p>
+                  {(formErrors.call_schedule || formErrors.call_date) && (
+                    <p className="mt-1 text-sm text-red-600">{formErrors.call_schedule || formErrors.call_date}</p>
                   )}
                 </div>
               )}
@@ -590,7 +787,7 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Adding...
+              {isEditing ? 'Saving...' : 'Adding...'}
             </>
           ) : (
             <>
@@ -599,7 +796,7 @@ export default function AssetForm({ userId, onAssetAdded, userCurrency = 'EUR',
                   <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
                 </svg>
               </span>
-              Add Asset
+              {isEditing ? 'Save Changes' : 'Add Asset'}
             </>
           )}
         </button>
@@ -1,26 +1,82 @@
 'use client';
 import { useState, Fragment } from 'react';
-import { FixedIncomeAsset, User, ASSET_TYPE_NAMES, REGIONS, ASSET_GROUPS, CurrencyCode } from '@/types';
+import { FixedIncomeAsset, RegionalMarketData, User, ASSET_TYPE_NAMES, REGIONS, ASSET_GROUPS, CurrencyCode, PriceSource, PRICE_SOURCE_NAMES } from '@/types';
 import AssetForm from './AssetForm';
+import LadderBuilder from './LadderBuilder';
+import KeyRateChart from './KeyRateChart';
 import { format } from 'date-fns';
-import { getMarketValue, calculateYTM, formatCurrency } from '@/lib/utils';
+import { getMarketValue, getDirtyMarketValue, getPriceSource, calculateYTM, calculateYTW, formatCurrency } from '@/lib/utils';
+import { getCreditSpread, getRegionCurve } from '@/lib/pricing';
+import { getCallSchedule, solveYieldToCall } from '@/lib/yield';
+import { calculateAccruedInterest } from '@/lib/cashflows';
+import { getDayCount } from '@/lib/daycount';
+import { analyzeInflationLinked, calculateKeyRateDurations, calculateRiskMetrics, InflationLinkedAnalytics } from '@/lib/analytics';
+import { getIssuer, getIssuerParent, getSector, getSectorName } from '@/lib/concentration';
+import { assessCreditRisk, normalizeRating } from '@/lib/credit';
 
 const regionNames = Object.fromEntries(
   REGIONS.map(region => [region.code, region.name])
 );
 
+const PRICE_SOURCE_BADGES: Record<PriceSource, string> = {
+  observed: 'badge-green',
+  model: 'badge-purple',
+  cost: 'badge-gray'
+};
+
+/**
+ * Indexation, real yield and breakeven inflation of an inflation-linked bond
+ */
+function InflationDetails({ analytics, currency }: { analytics: InflationLinkedAnalytics; currency: CurrencyCode }) {
+  return (
+    <div className="mt-4 bg-slate-100 dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Inflation Indexation</h4>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-8 gap-y-2 text-sm">
+        <p className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Reference CPI:</span>
+          <span className="text-gray-800 dark:text-gray-200">{analytics.referenceCpi.toFixed(3)}</span>
+        </p>
+        <p className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Index Ratio:</span>
+          <span className="text-gray-800 dark:text-gray-200">{analytics.indexRatio.toFixed(5)}</span>
+        </p>
+        <p className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Indexed Principal:</span>
+          <span className="text-gray-800 dark:text-gray-200">{formatCurrency(analytics.indexedPrincipal, currency, { maximumFractionDigits: 2 })}</span>
+        </p>
+        <p className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Real Yield:</span>
+          <span className="text-gray-800 dark:text-gray-200">{analytics.realYield.toFixed(2)}%</span>
+        </p>
+        <p className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Nominal Curve Yield:</span>
+          <span className="text-gray-800 dark:text-gray-200">{analytics.nominalYield !== null ? `${analytics.nominalYield.toFixed(2)}%` : 'No curve'}</span>
+        </p>
+        <p className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Breakeven Inflation:</span>
+          <span className="text-gray-800 dark:text-gray-200">{analytics.breakevenInflation !== null ? `${analytics.breakevenInflation.toFixed(2)}%` : '—'}</span>
+        </p>
+      </div>
+    </div>
+  );
+}
+
 interface AssetTableProps {
   assets: FixedIncomeAsset[];
   setAssets: React.Dispatch<React.SetStateAction<FixedIncomeAsset[]>>;
   user?: User;
+  // Regional curves the key-rate durations and breakeven inflation of an expanded holding are measured against
+  marketData?: RegionalMarketData[];
 }
 
-export default function AssetTable({ assets, setAssets, user }: AssetTableProps) {
+export default function AssetTable({ assets, setAssets, user, marketData = [] }: AssetTableProps) {
   const [expandedAssetId, setExpandedAssetId] = useState<string | null>(null);
   const [sortField, setSortField] = useState<keyof FixedIncomeAsset>('maturity_date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [filter, setFilter] = useState<string>('all');
   const [isAddAssetOpen, setIsAddAssetOpen] = useState<boolean>(false);
+  const [isLadderBuilderOpen, setIsLadderBuilderOpen] = useState<boolean>(false);
+  const [editingAsset, setEditingAsset] = useState<FixedIncomeAsset | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [isDeleting, setIsDeleting] = useState<boolean>(false);
   const [isDeletingAsset, setIsDeletingAsset] = useState<boolean>(false);
@@ -44,7 +100,10 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
     const matchesTerm = asset.name.toLowerCase().includes(term) ||
              asset.type.toLowerCase().includes(term) ||
              asset.issuer_type.toLowerCase().includes(term) ||
+             getIssuer(asset).toLowerCase().includes(term) ||
+             getIssuerParent(asset).toLowerCase().includes(term) ||
              (asset.rating ? asset.rating.toLowerCase().includes(term) : false) ||
+             (normalizeRating(asset.rating)?.toLowerCase() === term) ||
              (asset.region ? asset.region.toLowerCase().includes(term) : false);
 
     // First apply type filter
@@ -96,11 +155,18 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
 
   const handleNewAsset = (asset: FixedIncomeAsset | null) => {
     if (asset) {
-      setAssets([...assets, asset]);
+      setAssets(prevAssets => [...prevAssets, asset]);
     }
     setIsAddAssetOpen(false);
   };
 
+  const handleEditedAsset = (asset: FixedIncomeAsset | null) => {
+    if (asset) {
+      setAssets(prevAssets => prevAssets.map(existing => existing.id === asset.id ? asset : existing));
+    }
+    setEditingAsset(null);
+  };
+
   const openDeleteModal = (id: string) => {
     setSelectedAssetId(id);
     setIsDeletingAsset(true);
@@ -171,17 +237,25 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
             </p>
           </div>
 
-          <button 
-            onClick={() => setIsAddAssetOpen(!isAddAssetOpen)} 
-            className="btn-primary flex items-center"
-          >
-            <span className="icon-container icon-sm mr-2">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-              </svg>
-            </span>
-            Add Asset
-          </button>
+          <div className="flex items-center gap-2">
+            <button 
+              onClick={() => setIsLadderBuilderOpen(true)} 
+              className="btn-outline"
+            >
+              Build Ladder
+            </button>
+            <button 
+              onClick={() => setIsAddAssetOpen(!isAddAssetOpen)} 
+              className="btn-primary flex items-center"
+            >
+              <span className="icon-container icon-sm mr-2">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+                </svg>
+              </span>
+              Add Asset
+            </button>
+          </div>
         </div>
 
         <div className="flex flex-col sm:flex-row gap-4 items-center justify-between mb-5">
@@ -313,7 +387,7 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
                       )}
                     </button>
                   </th>
-                  <th className="bg-gray-50 dark:bg-gray-700/50">YTM</th>
+                  <th className="bg-gray-50 dark:bg-gray-700/50">YTW</th>
                   <th className="text-right bg-gray-50 dark:bg-gray-700/50">Actions</th>
                 </tr>
               </thead>
@@ -368,11 +442,19 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
                         </div>
                       </td>
                       <td>
-                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
                           {formatCurrency(getMarketValue(asset), asset.currency as CurrencyCode)}
+                          <span
+                            className={`badge ml-2 ${PRICE_SOURCE_BADGES[getPriceSource(asset)]}`}
+                            title={getPriceSource(asset) === 'model'
+                              ? `Discounted off the regional curve at a ${getCreditSpread(asset).toFixed(0)} bp spread`
+                              : getPriceSource(asset) === 'cost' ? 'No current price or curve; valued at cost' : 'Entered current price'}
+                          >
+                            {PRICE_SOURCE_NAMES[getPriceSource(asset)]}
+                          </span>
                         </div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">
-                          {asset.currency}
+                          {asset.currency} · Dirty {formatCurrency(getDirtyMarketValue(asset), asset.currency as CurrencyCode)}
                         </div>
                       </td>
                       <td>
@@ -393,8 +475,13 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
                       <td className="text-sm font-medium">
                         <span className="badge badge-blue">
                           {asset.type === 'perpetualBond' ? 'Perpetual' : 
-                           calculateYTM(asset) > 0 ? `${calculateYTM(asset).toFixed(2)}%` : 'Matured'}
+                           getDaysToMaturity(asset.maturity_date) > 0 ? `${calculateYTW(asset).toFixed(2)}%` : 'Matured'}
                         </span>
+                        {asset.indexation && getDaysToMaturity(asset.maturity_date) > 0 && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            Real {analyzeInflationLinked(asset)!.realYield.toFixed(2)}%
+                          </div>
+                        )}
                       </td>
                       <td className="text-right">
                         <div className="flex items-center justify-end space-x-2">
@@ -413,6 +500,17 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
                               </svg>
                             </span>
                           </button>
+                          <button
+                            onClick={() => setEditingAsset(asset)}
+                            className="icon-button"
+                            title="Edit asset"
+                          >
+                            <span className="icon-container icon-md">
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </span>
+                          </button>
                           <button
                             onClick={() => openDeleteModal(asset.id)}
                             className="icon-button-danger"
@@ -432,7 +530,7 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
                       <tr className="expanded-content">
                         <td colSpan={7}>
                           <div className="p-4">
-                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
                               <div className="bg-slate-100 dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
                                 <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Purchase Information</h4>
                                 <div className="space-y-2 text-sm">
@@ -446,20 +544,63 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
                                   </p>
                                   <p className="flex justify-between">
                                     <span className="text-gray-600 dark:text-gray-400">Premium/Discount:</span>
-                                    <span className={((asset.current_price || asset.purchase_price) / asset.face_value - 1) > 0 ? 'text-green-600' : 'text-red-600'}>
-                                      {(((asset.current_price || asset.purchase_price) / asset.face_value - 1) * 100).toFixed(2)}%
+                                    <span className={(getMarketValue(asset) / asset.face_value - 1) > 0 ? 'text-green-600' : 'text-red-600'}>
+                                      {((getMarketValue(asset) / asset.face_value - 1) * 100).toFixed(2)}%
                                     </span>
                                   </p>
                                   {asset.callable && (
-                                    <p className="flex justify-between">
-                                      <span className="text-gray-600 dark:text-gray-400">Callable:</span>
-                                      <span className="text-amber-600 dark:text-amber-500">
-                                        {asset.call_date ? format(new Date(asset.call_date), 'MMM d, yyyy') : 'Yes'}
-                                      </span>
-                                    </p>
+                                    getCallSchedule(asset).length > 0 ? (
+                                      getCallSchedule(asset).map(call => (
+                                        <p key={call.date} className="flex justify-between">
+                                          <span className="text-gray-600 dark:text-gray-400">
+                                            Call {format(new Date(call.date), 'MMM d, yyyy')} @ {call.price}:
+                                          </span>
+                                          <span className="text-amber-600 dark:text-amber-500">
+                                            YTC {solveYieldToCall(asset, getDirtyMarketValue(asset), call).bondEquivalent.toFixed(2)}%
+                                          </span>
+                                        </p>
+                                      ))
+                                    ) : (
+                                      <p className="flex justify-between">
+                                        <span className="text-gray-600 dark:text-gray-400">Callable:</span>
+                                        <span className="text-amber-600 dark:text-amber-500">Yes</span>
+                                      </p>
+                                    )
                                   )}
                                 </div>
                               </div>
+                              <div className="bg-slate-100 dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Pricing</h4>
+                                <div className="space-y-2 text-sm">
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Clean Price:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{formatCurrency(getMarketValue(asset), asset.currency as CurrencyCode, { maximumFractionDigits: 2 })}</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Price Source:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">
+                                      {PRICE_SOURCE_NAMES[getPriceSource(asset)]}
+                                      {getPriceSource(asset) === 'model' && ` (${getCreditSpread(asset) >= 0 ? '+' : ''}${getCreditSpread(asset).toFixed(0)} bp${asset.spread_override != null ? ', override' : ''})`}
+                                    </span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Accrued Interest:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{formatCurrency(calculateAccruedInterest(asset), asset.currency as CurrencyCode, { maximumFractionDigits: 2 })}</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Dirty Price:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{formatCurrency(getDirtyMarketValue(asset), asset.currency as CurrencyCode, { maximumFractionDigits: 2 })}</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Yield to Maturity:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{calculateYTM(asset).toFixed(2)}%</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Day Count:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{getDayCount(asset)}</span>
+                                  </p>
+                                </div>
+                              </div>
                               <div className="bg-slate-100 dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
                                 <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Tax & Income</h4>
                                 <div className="space-y-2 text-sm">
@@ -490,13 +631,61 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
                                       <span className="text-gray-800 dark:text-gray-200">{getDaysToMaturity(asset.maturity_date)}</span>
                                     </p>
                                   )}
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Modified Duration:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{calculateRiskMetrics(asset).modifiedDuration.toFixed(2)}</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Convexity:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{calculateRiskMetrics(asset).convexity.toFixed(1)}</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">DV01:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{formatCurrency(calculateRiskMetrics(asset).dv01, asset.currency as CurrencyCode, { maximumFractionDigits: 2 })}</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Issuer:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">
+                                      {getIssuer(asset)}
+                                      {getIssuerParent(asset) !== getIssuer(asset) && ` (${getIssuerParent(asset)})`}
+                                    </span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Sector:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{getSectorName(getSector(asset))}</span>
+                                  </p>
                                   <p className="flex justify-between">
                                     <span className="text-gray-600 dark:text-gray-400">Issuer Type:</span>
                                     <span className="text-gray-800 dark:text-gray-200">{asset.issuer_type.charAt(0).toUpperCase() + asset.issuer_type.slice(1)}</span>
                                   </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Rating (normalized):</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{assessCreditRisk(asset).rating || `Unrated, assumed ${assessCreditRisk(asset).assumedRating}`}</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Default Probability:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{assessCreditRisk(asset).defaultProbability.toFixed(2)}% a year</span>
+                                  </p>
+                                  <p className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Expected Loss:</span>
+                                    <span className="text-gray-800 dark:text-gray-200">{formatCurrency(assessCreditRisk(asset).lifetimeExpectedLoss, asset.currency as CurrencyCode, { maximumFractionDigits: 2 })} to maturity</span>
+                                  </p>
                                 </div>
                               </div>
                             </div>
+                            {asset.indexation && (
+                              <InflationDetails
+                                analytics={analyzeInflationLinked(asset, getRegionCurve(marketData, asset.region))!}
+                                currency={asset.currency as CurrencyCode}
+                              />
+                            )}
+                            <div className="mt-4 bg-slate-100 dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Key-Rate Durations</h4>
+                              <KeyRateChart
+                                durations={calculateKeyRateDurations(asset, getRegionCurve(marketData, asset.region))}
+                                height={140}
+                              />
+                            </div>
                           </div>
                         </td>
                       </tr>
@@ -538,6 +727,61 @@ export default function AssetTable({ assets, setAssets, user }: AssetTableProps)
         </div>
       )}
 
+      {/* Edit Asset Modal */}
+      {editingAsset && (
+        <div className="modal-overlay">
+          <div className="modal-container">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h2 className="text-lg font-medium">Edit Asset</h2>
+                <button 
+                  onClick={() => setEditingAsset(null)}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="modal-body">
+                <AssetForm 
+                  key={editingAsset.id}
+                  userId={user?.id || ''} 
+                  onAssetAdded={handleEditedAsset} 
+                  userCurrency={userCurrency}
+                  userCountry={user?.country}
+                  asset={editingAsset}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Ladder Builder Modal */}
+      {isLadderBuilderOpen && (
+        <div className="modal-overlay">
+          <div className="modal-container">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h2 className="text-lg font-medium">Bond Ladder Builder</h2>
+                <button 
+                  onClick={() => setIsLadderBuilderOpen(false)}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="modal-body">
+                <LadderBuilder assets={assets} user={user as User} />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Asset Confirmation Modal */}
       {isDeletingAsset && (
         <div className="modal-overlay">
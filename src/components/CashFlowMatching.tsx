@@ -0,0 +1,162 @@
+'use client';
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CurrencyCode, FixedIncomeAsset, LiquidityEvent, User } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { getOutflows } from '@/lib/liquidity';
+import { dedicatePortfolio } from '@/lib/optimizer/dedication';
+import { APPROXIMATE_RATES, buildCandidateUniverse, buildMaturityMatchedCandidates } from '@/lib/optimizer/universe';
+
+interface CashFlowMatchingProps {
+  events: LiquidityEvent[];
+  assets: FixedIncomeAsset[];
+  user: User;
+}
+
+export default function CashFlowMatching({ events, assets, user }: CashFlowMatchingProps) {
+  const userCurrency = (user?.currency || 'EUR') as CurrencyCode;
+  const [reinvestmentRate, setReinvestmentRate] = useState('2');
+  const [includeHoldings, setIncludeHoldings] = useState(true);
+
+  const result = useMemo(() => {
+    const today = new Date();
+    const eventDates = getOutflows(events).map(event => parseISO(event.date));
+    const candidates = [
+      ...buildCandidateUniverse(APPROXIMATE_RATES, today),
+      ...buildMaturityMatchedCandidates(APPROXIMATE_RATES, user?.country || 'eurozone', eventDates, today)
+    ];
+
+    return dedicatePortfolio({
+      events,
+      candidates,
+      holdings: includeHoldings ? assets : [],
+      currency: userCurrency,
+      reinvestmentRate: parseFloat(reinvestmentRate) || 0,
+      settlement: today
+    });
+  }, [events, assets, user?.country, userCurrency, reinvestmentRate, includeHoldings]);
+
+  return (
+    <div className="space-y-6">
+      <div className="form-section bg-slate-200 dark:bg-gray-800">
+        <h3 className="form-section-title">Matching Settings</h3>
+        <div className="form-row mt-4">
+          <div>
+            <label htmlFor="reinvestmentRate" className="form-label">
+              Reinvestment Rate (%)
+            </label>
+            <input
+              type="number"
+              id="reinvestmentRate"
+              value={reinvestmentRate}
+              onChange={(e) => setReinvestmentRate(e.target.value)}
+              className="form-input"
+              step="0.1"
+              min="0"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Rate earned on surplus cash until the next outflow.
+            </p>
+          </div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="includeHoldings"
+              checked={includeHoldings}
+              onChange={(e) => setIncludeHoldings(e.target.checked)}
+              className="form-checkbox"
+            />
+            <label htmlFor="includeHoldings" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+              Count cash flows from current holdings
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {result.status !== 'optimal' ? (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/30 rounded-md text-red-800 dark:text-red-300 text-sm">
+          No combination of the available instruments covers your outflows.
+        </div>
+      ) : result.coverage.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          There are no upcoming {userCurrency} outflows to match.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="stat-card p-4">
+              <p className="stat-card-title">Total Cost Today</p>
+              <p className="stat-card-value text-xl">{formatCurrency(result.totalCost, userCurrency)}</p>
+            </div>
+            <div className="stat-card p-4">
+              <p className="stat-card-title">Cash Reserve</p>
+              <p className="stat-card-value text-xl">{formatCurrency(result.cashReserve, userCurrency)}</p>
+              <p className="stat-card-desc text-xs">held for outflows before any instrument pays</p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Purchase Plan</h3>
+            {result.purchases.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No purchases needed.</p>
+            ) : (
+              <table className="saas-table">
+                <thead>
+                  <tr>
+                    <th>Instrument</th>
+                    <th>Maturity</th>
+                    <th className="text-right">Face Value</th>
+                    <th className="text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.purchases.map(purchase => (
+                    <tr key={purchase.asset.id}>
+                      <td>{purchase.asset.name}</td>
+                      <td>{format(parseISO(purchase.asset.maturity_date), 'MMM d, yyyy')}</td>
+                      <td className="text-right">{formatCurrency(purchase.faceValue, userCurrency)}</td>
+                      <td className="text-right">{formatCurrency(purchase.cost, userCurrency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Coverage Report</h3>
+            <div className="space-y-3">
+              {result.coverage.map(({ event, funding, fromSurplus, surplusAfter }) => (
+                <div key={event.id} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                  <div className="flex justify-between text-sm font-medium text-gray-900 dark:text-white">
+                    <span>{event.description} · {format(parseISO(event.date), 'MMM d, yyyy')}</span>
+                    <span className="text-rose-600 dark:text-rose-400">-{formatCurrency(event.amount, userCurrency)}</span>
+                  </div>
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                    {funding.map(source => (
+                      <li key={source.asset.id} className="flex justify-between">
+                        <span>{source.asset.name}</span>
+                        <span>{formatCurrency(source.amount, userCurrency)}</span>
+                      </li>
+                    ))}
+                    {fromSurplus > 0.005 && (
+                      <li className="flex justify-between">
+                        <span>Reinvested surplus</span>
+                        <span>{formatCurrency(fromSurplus, userCurrency)}</span>
+                      </li>
+                    )}
+                  </ul>
+                  {surplusAfter > 0.005 && (
+                    <p className="mt-2 text-xs text-emerald-600 dark:text-emerald-400">
+                      {formatCurrency(surplusAfter, userCurrency)} carried forward
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
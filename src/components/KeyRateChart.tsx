@@ -0,0 +1,69 @@
+'use client';
+import { Bar } from 'react-chartjs-2';
+import { Chart as ChartJS, BarElement, CategoryScale, LinearScale, Tooltip, TooltipItem } from 'chart.js';
+import { KeyRateDurations } from '@/lib/analytics';
+import { KEY_RATE_TENORS } from '@/lib/scenarios';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip);
+
+interface KeyRateChartProps {
+  durations: KeyRateDurations;
+  // Optional target profile drawn alongside the durations
+  target?: Partial<KeyRateDurations>;
+  height?: number;
+}
+
+export default function KeyRateChart({ durations, target, height = 160 }: KeyRateChartProps) {
+  const data = {
+    labels: [...KEY_RATE_TENORS],
+    datasets: [
+      {
+        label: 'Key-rate duration',
+        data: KEY_RATE_TENORS.map(tenor => durations[tenor]),
+        backgroundColor: 'rgba(99, 102, 241, 0.8)', // indigo
+        borderColor: 'rgba(99, 102, 241, 1)',
+        borderWidth: 1,
+        borderRadius: 4
+      },
+      ...(target ? [{
+        label: 'Target',
+        data: KEY_RATE_TENORS.map(tenor => target[tenor] ?? 0),
+        backgroundColor: 'rgba(16, 185, 129, 0.5)', // emerald
+        borderColor: 'rgba(16, 185, 129, 1)',
+        borderWidth: 1,
+        borderRadius: 4
+      }] : [])
+    ]
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: 'rgba(241, 245, 249, 0.95)', // slate-100 with slight transparency
+        titleColor: '#1e293b', // slate-800
+        bodyColor: '#334155', // slate-700
+        borderColor: '#cbd5e1', // slate-300
+        borderWidth: 1,
+        cornerRadius: 8,
+        padding: 10,
+        callbacks: {
+          label: (tooltipItem: TooltipItem<'bar'>) =>
+            `${tooltipItem.dataset.label}: ${(tooltipItem.raw as number).toFixed(3)} years`
+        }
+      }
+    },
+    scales: {
+      x: { grid: { display: false }, ticks: { color: '#6b7280', font: { size: 10 } } },
+      y: { ticks: { color: '#6b7280', font: { size: 10 } } }
+    }
+  };
+
+  return (
+    <div style={{ height }}>
+      <Bar data={data} options={options} />
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+import { useMemo, useState } from 'react';
+import { CurrencyCode, FixedIncomeAsset, REGIONS, User, ASSET_TYPE_NAMES } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { buildLadder } from '@/lib/optimizer/ladder';
+import { APPROXIMATE_RATES } from '@/lib/optimizer/universe';
+import { KeyRateDurations } from '@/lib/analytics';
+import { KEY_RATE_TENORS, KeyRateTenor } from '@/lib/scenarios';
+import KeyRateChart from './KeyRateChart';
+
+interface LadderBuilderProps {
+  assets: FixedIncomeAsset[];
+  user: User;
+}
+
+export default function LadderBuilder({ assets, user }: LadderBuilderProps) {
+  const currentYear = new Date().getFullYear();
+  const userCurrency = (user?.currency || 'EUR') as CurrencyCode;
+  const [budget, setBudget] = useState('10000');
+  const [startYear, setStartYear] = useState(String(currentYear + 1));
+  const [endYear, setEndYear] = useState(String(currentYear + 5));
+  const [spacing, setSpacing] = useState('1');
+  const [region, setRegion] = useState(user?.country || 'eurozone');
+  const [customWeights, setCustomWeights] = useState('');
+  const [keyRateInputs, setKeyRateInputs] = useState<Partial<Record<KeyRateTenor, string>>>({});
+
+  // Only the tenors with a value entered are targeted
+  const keyRateTarget = useMemo(() => {
+    const target: Partial<KeyRateDurations> = {};
+    KEY_RATE_TENORS.forEach(tenor => {
+      const value = parseFloat(keyRateInputs[tenor] || '');
+      if (!isNaN(value)) target[tenor] = value;
+    });
+    return Object.keys(target).length > 0 ? target : undefined;
+  }, [keyRateInputs]);
+
+  const proposal = useMemo(() => {
+    const weights = customWeights.trim()
+      ? customWeights.split(',').map(weight => parseFloat(weight.trim()) || 0)
+      : undefined;
+
+    return buildLadder(assets, {
+      budget: parseFloat(budget) || 0,
+      startYear: parseInt(startYear) || currentYear,
+      endYear: parseInt(endYear) || currentYear,
+      spacing: parseInt(spacing) || 1,
+      weights,
+      keyRateTarget,
+      currency: userCurrency,
+      region,
+      riskTolerance: user?.risk_tolerance || 'moderate'
+    }, APPROXIMATE_RATES);
+  }, [assets, budget, startYear, endYear, spacing, region, customWeights, keyRateTarget, userCurrency, user?.risk_tolerance, currentYear]);
+
+  return (
+    <div className="space-y-6">
+      <div className="form-section bg-slate-200 dark:bg-gray-800">
+        <h3 className="form-section-title">Ladder Settings</h3>
+        <div className="space-y-4 mt-4">
+          <div className="form-row">
+            <div>
+              <label htmlFor="ladderBudget" className="form-label">Budget ({userCurrency})</label>
+              <input
+                type="number"
+                id="ladderBudget"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className="form-input"
+                min="0"
+              />
+            </div>
+            <div>
+              <label htmlFor="ladderRegion" className="form-label">Region</label>
+              <select
+                id="ladderRegion"
+                value={region}
+                onChange={(e) => setRegion(e.target.value)}
+                className="form-select"
+              >
+                {REGIONS.map(r => (
+                  <option key={r.code} value={r.code}>{r.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="ladderStart" className="form-label">Start Year</label>
+              <input
+                type="number"
+                id="ladderStart"
+                value={startYear}
+                onChange={(e) => setStartYear(e.target.value)}
+                className="form-input"
+                min={currentYear}
+              />
+            </div>
+            <div>
+              <label htmlFor="ladderEnd" className="form-label">End Year</label>
+              <input
+                type="number"
+                id="ladderEnd"
+                value={endYear}
+                onChange={(e) => setEndYear(e.target.value)}
+                className="form-input"
+                min={currentYear}
+              />
+            </div>
+            <div>
+              <label htmlFor="ladderSpacing" className="form-label">Rung Spacing (years)</label>
+              <input
+                type="number"
+                id="ladderSpacing"
+                value={spacing}
+                onChange={(e) => setSpacing(e.target.value)}
+                className="form-input"
+                min="1"
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="ladderWeights" className="form-label">Custom Rung Weights</label>
+            <input
+              type="text"
+              id="ladderWeights"
+              value={customWeights}
+              onChange={(e) => setCustomWeights(e.target.value)}
+              className="form-input"
+              placeholder="E.g., 1, 1, 2, 2, 3 (leave empty for an even ladder)"
+              disabled={!!keyRateTarget}
+            />
+          </div>
+          <div>
+            <p className="form-label">Target Key-Rate Durations (years, overrides the rung weights)</p>
+            <div className="grid grid-cols-7 gap-2">
+              {KEY_RATE_TENORS.map(tenor => (
+                <div key={tenor}>
+                  <label htmlFor={`ladderKeyRate${tenor}`} className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{tenor}</label>
+                  <input
+                    type="number"
+                    id={`ladderKeyRate${tenor}`}
+                    value={keyRateInputs[tenor] || ''}
+                    onChange={(e) => setKeyRateInputs(prev => ({ ...prev, [tenor]: e.target.value }))}
+                    className="form-input"
+                    step="0.1"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {proposal.rungs.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Choose an end year on or after the start year to build a ladder.
+        </p>
+      ) : (
+        <>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Proposed Rungs</h3>
+            <table className="saas-table">
+              <thead>
+                <tr>
+                  <th>Year</th>
+                  <th className="text-right">Target</th>
+                  <th className="text-right">Existing</th>
+                  <th>Buy</th>
+                  <th className="text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposal.rungs.map(rung => (
+                  <tr key={rung.year}>
+                    <td>{rung.year}</td>
+                    <td className="text-right">
+                      {formatCurrency(rung.targetValue, userCurrency)}
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{rung.targetWeight.toFixed(1)}%</span>
+                    </td>
+                    <td className="text-right">{formatCurrency(rung.existingValue, userCurrency)}</td>
+                    <td>
+                      {rung.purchase ? (
+                        <>
+                          {ASSET_TYPE_NAMES[rung.purchase.type]}
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            {REGIONS.find(r => r.code === rung.purchase!.region)?.name} at {rung.purchase.rate.toFixed(2)}%
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="text-right">{formatCurrency(rung.purchase?.amount || 0, userCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {formatCurrency(proposal.totalPurchases, userCurrency)} of purchases on top of {formatCurrency(proposal.totalExisting, userCurrency)} already in the ladder.
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Ladder Key-Rate Durations</h3>
+            <KeyRateChart durations={proposal.keyRateDurations} target={keyRateTarget} />
+            {keyRateTarget && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Rung weights are chosen to bring the ladder (indigo) as close as the rungs allow to your target (green).
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Projected Annual Cash Flows</h3>
+            <table className="saas-table">
+              <thead>
+                <tr>
+                  <th>Year</th>
+                  <th className="text-right">Coupons</th>
+                  <th className="text-right">Principal</th>
+                  <th className="text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposal.annualCashFlows.map(cashFlow => (
+                  <tr key={cashFlow.year}>
+                    <td>{cashFlow.year}</td>
+                    <td className="text-right">{formatCurrency(cashFlow.coupons, userCurrency)}</td>
+                    <td className="text-right">{formatCurrency(cashFlow.principal, userCurrency)}</td>
+                    <td className="text-right font-medium">{formatCurrency(cashFlow.coupons + cashFlow.principal, userCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,28 +1,43 @@
 'use client';
 import { useState } from 'react';
-import { CurrencyCode, FixedIncomeAsset, LiquidityEvent, User } from '@/types';
-import { format, addMonths, isSameMonth } from 'date-fns';
+import { CurrencyCode, FixedIncomeAsset, LiquidityEvent, RegionalMarketData, User } from '@/types';
+import { format, addMonths, isSameMonth, parseISO } from 'date-fns';
 import AssetForm from './AssetForm';
 import OutflowForm from './OutflowForm';
+import CashFlowMatching from './CashFlowMatching';
 import { formatCurrency } from '@/lib/utils';
+import { generateCashFlowSchedule } from '@/lib/cashflows';
+import { isInflow } from '@/lib/liquidity';
+import { convertAssets, convertEvents, FxConverter } from '@/lib/fx';
+import { LiquidityCoverageResult, simulateLiquidityCoverage } from '@/lib/liquidityStress';
 
 interface LiquidityTimelineProps {
   events: LiquidityEvent[];
   assets: FixedIncomeAsset[];
   user: User;
+  // Converts monthly totals into the reporting currency; items keep their own currency
+  fx?: FxConverter;
+  // Curves the stress test reprices holdings on
+  marketData?: RegionalMarketData[];
 }
 
-export default function LiquidityTimeline({ events, assets, user }: LiquidityTimelineProps) {
+export default function LiquidityTimeline({ events, assets, user, fx, marketData = [] }: LiquidityTimelineProps) {
   const [isAddingAsset, setIsAddingAsset] = useState(false);
   const [isAddingEvent, setIsAddingEvent] = useState(false);
   const [isDeletingEvent, setIsDeletingEvent] = useState(false);
+  const [isMatchingCashFlows, setIsMatchingCashFlows] = useState(false);
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  const [editingEvent, setEditingEvent] = useState<LiquidityEvent | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState('');
+  const [stress, setStress] = useState<LiquidityCoverageResult | null>(null);
+  const [isStressing, setIsStressing] = useState(false);
   const today = new Date();
+  const toReporting = (amount: number, currency: string) => fx ? fx.convert(amount, currency) : amount;
+  const rateDate = fx ? fx.getRateDate([...assets, ...events].map(item => item.currency)) : null;
   
   // Generate timeline for the next 24 months, merging both liquidity events 
-  // and upcoming bond maturities
+  // and upcoming bond coupons and maturities
   const generateMonthlyTimeline = () => {
     const timeline: Array<{
       date: Date;
@@ -32,7 +47,7 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
       currency: string;
       items: Array<{ 
         id?: string; 
-        type: 'maturity' | 'event'; 
+        type: 'maturity' | 'coupon' | 'income' | 'event'; 
         name: string; 
         amount: number; 
         currency: string;
@@ -49,43 +64,40 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
         month: format(monthDate, 'MMM yyyy'),
         inflows: 0,
         outflows: 0,
-        currency: 'EUR', // Default currency, will be updated later
+        currency: fx?.reportingCurrency || 'EUR', // Without a converter, updated to the dominant currency later
         items: []
       });
     }
     
-    // Add asset maturities (inflows)
+    // Add asset coupons and redemptions (inflows)
+    const horizon = addMonths(today, 24);
     assets.forEach(asset => {
-      const maturityDate = new Date(asset.maturity_date);
-      // Skip assets that are already matured
-      if (maturityDate < today) return;
-      
-      // Find the timeline entry for this month
-      const timelineEntry = timeline.find(t => isSameMonth(t.date, maturityDate));
-      if (!timelineEntry) return; // Outside our 24 month window
-      
-      const maturityValue = asset.face_value;
-      
-      // Add to inflows
-      timelineEntry.inflows += maturityValue;
-      
-      // Add as an item
-      timelineEntry.items.push({
-        id: asset.id,
-        type: 'maturity',
-        name: asset.name,
-        amount: maturityValue,
-        date: maturityDate,
-        currency: asset.currency
+      generateCashFlowSchedule(asset, { from: today, to: horizon }).forEach(flow => {
+        // Find the timeline entry for this month
+        const timelineEntry = timeline.find(t => isSameMonth(t.date, flow.date));
+        if (!timelineEntry) return; // Outside our 24 month window
+        
+        // Add to inflows
+        timelineEntry.inflows += toReporting(flow.amount, asset.currency);
+        
+        // Add as an item
+        timelineEntry.items.push({
+          id: asset.id,
+          type: flow.type === 'principal' ? 'maturity' : 'coupon',
+          name: flow.type === 'principal' ? asset.name : `${asset.name} coupon`,
+          amount: flow.amount,
+          date: flow.date,
+          currency: asset.currency
+        });
+        
+        // Update currency for the month if needed
+        if (!fx && timelineEntry.inflows > 0) {
+          timelineEntry.currency = asset.currency;
+        }
       });
-      
-      // Update currency for the month if needed
-      if (timelineEntry.inflows > 0) {
-        timelineEntry.currency = asset.currency;
-      }
     });
     
-    // Add liquidity events (outflows)
+    // Add liquidity events, with recurring events already expanded into their occurrences
     events.forEach(event => {
       const eventDate = new Date(event.date);
       // Skip past events
@@ -95,13 +107,16 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
       const timelineEntry = timeline.find(t => isSameMonth(t.date, eventDate));
       if (!timelineEntry) return; // Outside our 24 month window
       
-      // Add to outflows
-      timelineEntry.outflows += event.amount;
+      if (isInflow(event)) {
+        timelineEntry.inflows += toReporting(event.amount, event.currency);
+      } else {
+        timelineEntry.outflows += toReporting(event.amount, event.currency);
+      }
       
       // Add as an item
       timelineEntry.items.push({
         id: event.id,
-        type: 'event',
+        type: isInflow(event) ? 'income' : 'event',
         name: event.description,
         amount: event.amount,
         date: eventDate,
@@ -109,7 +124,7 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
       });
       
       // Update currency for the month
-      if (timelineEntry.outflows > timelineEntry.inflows) {
+      if (!fx && timelineEntry.outflows > timelineEntry.inflows) {
         timelineEntry.currency = event.currency;
       }
     });
@@ -189,6 +204,37 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
     }
   };
   
+  // The stored event behind a timeline item; occurrences of a recurring event map to their series
+  const getStoredEvent = (id: string): LiquidityEvent | null => {
+    const event = events.find(e => e.id === id);
+    if (!event) return null;
+    return event.series_id
+      ? { ...event, id: event.series_id, date: event.series_start || event.date }
+      : event;
+  };
+
+  // Toggle the stress test, which simulates early-sale prices and uncertain event amounts and dates
+  const handleToggleStress = () => {
+    if (stress) {
+      setStress(null);
+      return;
+    }
+    setIsStressing(true);
+    // Let the button state render before the simulation blocks the main thread
+    setTimeout(() => {
+      const reportingCurrency = fx?.reportingCurrency || user.currency;
+      setStress(simulateLiquidityCoverage(
+        (fx ? convertAssets(assets, fx) : assets).filter(asset => asset.currency === reportingCurrency),
+        (fx ? convertEvents(events, fx) : events).filter(event => event.currency === reportingCurrency),
+        { marketData, settlement: today, horizonMonths: 24 }
+      ));
+      setIsStressing(false);
+    }, 0);
+  };
+
+  // Probability that an outflow is covered without a sale at a loss, when the stress test is on
+  const getCoverage = (id?: string) => stress?.events.find(coverage => coverage.event.id === id)?.probability;
+
   // Initialize the delete modal
   const openDeleteModal = (eventId: string) => {
     setSelectedEventId(eventId);
@@ -203,6 +249,11 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
           <p className="text-sm text-gray-500 dark:text-gray-400">
             Next {timelineData.length} months with cash flows
           </p>
+          {rateDate && fx && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Net flows in {fx.reportingCurrency} at rates as of {format(parseISO(rateDate), 'MMM d, yyyy')}
+            </p>
+          )}
         </div>
         <div className="mt-2 sm:mt-0 flex items-center gap-4">
           <div className="flex items-center space-x-2">
@@ -290,19 +341,42 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
                   <div key={i} className="flex items-center justify-between p-3 group">
                     <div className="flex items-center">
                       <div className={`w-6 h-6 rounded-full flex items-center justify-center mr-2 ${
-                        item.type === 'maturity' 
+                        item.type !== 'event' 
                           ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' 
                           : 'bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400'
                       }`}>
-                        <span className="text-base leading-none">{item.type === 'maturity' ? '+' : '-'}</span>
+                        <span className="text-base leading-none">{item.type !== 'event' ? '+' : '-'}</span>
                       </div>
                       <div className="flex items-center">
                         <span className="text-gray-800 dark:text-gray-200 font-medium text-sm truncate max-w-[120px]">
                           {item.name}
                         </span>
-                        {item.type === 'event' && item.id && (
+                        {item.type === 'event' && getCoverage(item.id) !== undefined && (
+                          <span
+                            className={`ml-1.5 px-1.5 py-0.5 rounded text-xs font-medium ${
+                              getCoverage(item.id)! >= 0.95
+                                ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400'
+                                : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                            }`}
+                            title="Probability this expense is covered without selling a holding at a loss"
+                          >
+                            {(getCoverage(item.id)! * 100).toFixed(0)}%
+                          </span>
+                        )}
+                        {(item.type === 'event' || item.type === 'income') && item.id && (
                           <button 
-                            onClick={() => openDeleteModal(item.id as string)}
+                            onClick={() => setEditingEvent(getStoredEvent(item.id as string))}
+                            className="ml-1.5 text-gray-400 hover:text-indigo-500 dark:text-gray-500 dark:hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Edit event"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                              <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                            </svg>
+                          </button>
+                        )}
+                        {(item.type === 'event' || item.type === 'income') && item.id && (
+                          <button 
+                            onClick={() => openDeleteModal(getStoredEvent(item.id as string)?.id || (item.id as string))}
                             className="ml-1.5 text-gray-400 hover:text-rose-500 dark:text-gray-500 dark:hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
                             title="Delete event"
                           >
@@ -313,8 +387,8 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
                         )}
                       </div>
                     </div>
-                    <div className={`font-medium text-sm ${item.type === 'maturity' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}`}>
-                      {item.type === 'maturity' ? '+' : '-'}{formatCurrency(item.amount, item.currency as CurrencyCode)}
+                    <div className={`font-medium text-sm ${item.type !== 'event' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}`}>
+                      {item.type !== 'event' ? '+' : '-'}{formatCurrency(item.amount, item.currency as CurrencyCode)}
                     </div>
                   </div>
                 ))}
@@ -348,14 +422,35 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
       
       <div className="mt-4 pt-3 border-t border-gray-100 dark:border-gray-700 flex justify-between items-center">
         <div className="text-xs text-gray-500 dark:text-gray-400">
-          Only showing months with expected cash flows within the next 24 months.
+          {stress
+            ? `${(stress.probabilityAllCovered * 100).toFixed(0)}% confident every expense is covered without selling at a loss, over ${stress.paths.toLocaleString()} simulated paths.`
+            : 'Only showing months with expected cash flows within the next 24 months.'}
+        </div>
+        <div className="flex items-center gap-3">
+          {events.length > 0 && assets.length > 0 && (
+            <button
+              onClick={handleToggleStress}
+              className="text-xs text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+              disabled={isStressing}
+            >
+              {isStressing ? 'Simulating...' : stress ? 'Hide Stress Test' : 'Stress Test'}
+            </button>
+          )}
+          {events.length > 0 && (
+            <button
+              onClick={() => setIsMatchingCashFlows(true)}
+              className="text-xs text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+            >
+              Match Cash Flows
+            </button>
+          )}
+          <button
+            onClick={() => setIsAddingEvent(true)}
+            className="text-xs text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+          >
+            + Add Event
+          </button>
         </div>
-        <button
-          onClick={() => setIsAddingEvent(true)}
-          className="text-xs text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
-        >
-          + Add Outflow
-        </button>
       </div>
       
       {/* Add Asset Modal */}
@@ -397,7 +492,7 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
           <div className="modal-container">
             <div className="modal-content max-w-md">
               <div className="modal-header">
-                <h2 className="text-lg font-medium">Add Liquidity Outflow</h2>
+                <h2 className="text-lg font-medium">Add Liquidity Event</h2>
                 <button 
                   onClick={() => setIsAddingEvent(false)}
                   className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
@@ -424,6 +519,69 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
         </div>
       )}
       
+      {/* Edit Event Modal */}
+      {editingEvent && (
+        <div className="modal-overlay">
+          <div className="modal-container">
+            <div className="modal-content max-w-md">
+              <div className="modal-header">
+                <h2 className="text-lg font-medium">Edit Liquidity Event</h2>
+                <button 
+                  onClick={() => setEditingEvent(null)}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="modal-close-icon" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+              <div className="modal-body">
+                <OutflowForm 
+                  key={editingEvent.id}
+                  userId={user.id} 
+                  event={editingEvent}
+                  onEventAdded={(event) => {
+                    setEditingEvent(null);
+                    if (event) {
+                      window.location.reload();
+                    }
+                  }}
+                  userCurrency={user.currency as CurrencyCode}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Cash-Flow Matching Modal */}
+      {isMatchingCashFlows && (
+        <div className="modal-overlay">
+          <div className="modal-container">
+            <div className="modal-content">
+              <div className="modal-header">
+                <h2 className="text-lg font-medium">Cash-Flow Matching</h2>
+                <button 
+                  onClick={() => setIsMatchingCashFlows(false)}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="modal-close-icon" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+              <div className="modal-body">
+                <CashFlowMatching 
+                  events={events} 
+                  assets={assets} 
+                  user={user} 
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      
       {/* Delete Event Confirmation Modal */}
       {isDeletingEvent && (
         <div className="modal-overlay">
@@ -463,7 +621,7 @@ export default function LiquidityTimeline({ events, assets, user }: LiquidityTim
                     Delete this liquidity event?
                   </h3>
                   <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                    This action cannot be undone. The event will be permanently removed from your timeline.
+                    This action cannot be undone. The event, and every occurrence of it if it repeats, will be permanently removed from your timeline.
                   </p>
                 </div>
                 
@@ -0,0 +1,162 @@
+'use client';
+import { useState } from 'react';
+import { RegionalMarketData, REGIONS } from '@/types';
+
+type UploadFormat = 'csv' | 'json';
+
+const CSV_EXAMPLE = `region,date,benchmark_rate,inflation_rate,3M,1Y,2Y,5Y,10Y,30Y,CPI 2024-11,CPI 2024-12
+eurozone,2025-01-02,3.00,2.4,2.70,2.45,2.25,2.35,2.55,2.70,126.37,126.95`;
+
+interface MarketDataUploadProps {
+  onUploaded?: (curves: RegionalMarketData[]) => void;
+}
+
+export default function MarketDataUpload({ onUploaded }: MarketDataUploadProps) {
+  const [format, setFormat] = useState<UploadFormat>('csv');
+  const [content, setContent] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [uploaded, setUploaded] = useState<RegionalMarketData[]>([]);
+
+  // Load a file into the text area, taking the format from its extension
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setContent(await file.text());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!content.trim()) {
+      setFormError('Paste or choose a file with at least one curve');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      let body = content;
+      if (format === 'json') {
+        try {
+          body = JSON.stringify(JSON.parse(content));
+        } catch {
+          throw new Error('The JSON could not be parsed');
+        }
+      }
+
+      const response = await fetch('/api/market-data', {
+        method: 'POST',
+        headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'application/json' },
+        body
+      });
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.details || responseData.error || 'Failed to upload market data');
+      }
+
+      setUploaded(responseData);
+      setContent('');
+      onUploaded?.(responseData);
+    } catch (error) {
+      console.error('Error uploading market data:', error);
+      setFormError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {formError && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/30 rounded-md text-red-800 dark:text-red-300">
+          <span className="font-medium">Error:</span> {formError}
+        </div>
+      )}
+
+      <div className="form-section bg-slate-200 dark:bg-gray-800">
+        <h3 className="form-section-title">Yield Curves</h3>
+        <div className="space-y-4 mt-4">
+          <div className="form-row">
+            <div>
+              <label htmlFor="marketDataFormat" className="form-label">Format</label>
+              <select
+                id="marketDataFormat"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as UploadFormat)}
+                className="form-select"
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="marketDataFile" className="form-label">File</label>
+              <input
+                type="file"
+                id="marketDataFile"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="form-input"
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="marketDataContent" className="form-label">Curves</label>
+            <textarea
+              id="marketDataContent"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="form-input font-mono text-xs"
+              rows={8}
+              placeholder={format === 'csv'
+                ? CSV_EXAMPLE
+                : '[{ "region": "eurozone", "date": "2025-01-02", "benchmark_rate": 3.0, "inflation_rate": 2.4, "yield_curve": { "1Y": 2.45, "10Y": 2.55 }, "cpi": { "2024-12": 126.95 } }]'}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Rates are in percent. Tenors are written as 3M, 1Y, 10Y and so on; a curve uploaded again for the same region and date replaces the stored one.
+              CPI levels by month are optional and index the region&apos;s inflation-linked bonds.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button type="submit" className="btn-primary" disabled={isSubmitting}>
+          {isSubmitting ? 'Uploading...' : 'Upload Curves'}
+        </button>
+      </div>
+
+      {uploaded.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Stored Curves</h3>
+          <table className="saas-table">
+            <thead>
+              <tr>
+                <th>Region</th>
+                <th>Date</th>
+                <th className="text-right">Benchmark</th>
+                <th className="text-right">Inflation</th>
+                <th>Tenors</th>
+                <th>CPI Months</th>
+              </tr>
+            </thead>
+            <tbody>
+              {uploaded.map(curve => (
+                <tr key={`${curve.region}-${curve.date}`}>
+                  <td>{REGIONS.find(r => r.code === curve.region)?.name || curve.region}</td>
+                  <td>{curve.date}</td>
+                  <td className="text-right">{curve.benchmark_rate.toFixed(2)}%</td>
+                  <td className="text-right">{curve.inflation_rate.toFixed(2)}%</td>
+                  <td>{Object.keys(curve.yield_curve).join(', ')}</td>
+                  <td>{Object.keys(curve.cpi || {}).sort().join(', ') || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -1,22 +1,30 @@
 'use client';
 
 import { useState } from 'react';
-import { CurrencyCode, CURRENCIES, LiquidityEvent } from '@/types';
+import { CurrencyCode, CURRENCIES, LiquidityDirection, LiquidityEvent, RecurrenceFrequency } from '@/types';
 import { parseInputValue, formatNumberWithCommas } from '@/lib/utils';
+import { RECURRENCE_NAMES } from '@/lib/liquidity';
 
 interface OutflowFormProps {
   userId: string;
   userCurrency: CurrencyCode;
   onEventAdded: (event: LiquidityEvent | null) => void;
+  // Event to edit; the form creates a new event when omitted
+  event?: LiquidityEvent;
 }
 
-export default function OutflowForm({ userId, userCurrency, onEventAdded }: OutflowFormProps) {
+export default function OutflowForm({ userId, userCurrency, onEventAdded, event }: OutflowFormProps) {
+  const isEditing = !!event;
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState('');
-  const [amount, setAmount] = useState('');
-  const [currency, setCurrency] = useState<CurrencyCode>(userCurrency);
-  const [date, setDate] = useState('');
-  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState(event ? event.amount.toString() : '');
+  const [currency, setCurrency] = useState<CurrencyCode>((event?.currency as CurrencyCode) || userCurrency);
+  const [date, setDate] = useState(event?.date || '');
+  const [description, setDescription] = useState(event?.description || '');
+  const [direction, setDirection] = useState<LiquidityDirection>(event?.direction || 'outflow');
+  const [recurrence, setRecurrence] = useState<RecurrenceFrequency>(event?.recurrence || 'none');
+  const [recurrenceEnd, setRecurrenceEnd] = useState(event?.recurrence_end || '');
+  const isInflow = direction === 'inflow';
   
   // Predefined outflow categories for quick selection
   const outflowCategories = [
@@ -31,11 +39,28 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
     { id: 'other', name: 'Other', icon: '📋' },
   ];
   
+  // Predefined inflow categories for quick selection
+  const inflowCategories = [
+    { id: 'salary-bonus', name: 'Salary/Bonus', icon: '💼' },
+    { id: 'inheritance', name: 'Inheritance', icon: '🎁' },
+    { id: 'rent-income', name: 'Rent Income', icon: '🏘️' },
+    { id: 'pension', name: 'Pension', icon: '🧓' },
+    { id: 'asset-sale', name: 'Asset Sale', icon: '🏷️' },
+    { id: 'other-income', name: 'Other', icon: '📋' },
+  ];
+  
+  const categories = isInflow ? inflowCategories : outflowCategories;
+  
   const [selectedCategory, setSelectedCategory] = useState('');
   
+  const selectDirection = (value: LiquidityDirection) => {
+    setDirection(value);
+    setSelectedCategory('');
+  };
+  
   const selectCategory = (categoryId: string) => {
     setSelectedCategory(categoryId);
-    const category = outflowCategories.find(c => c.id === categoryId);
+    const category = categories.find(c => c.id === categoryId);
     if (category) {
       setDescription(category.name);
     }
@@ -62,23 +87,31 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
         throw new Error('Please enter a valid positive amount');
       }
       
+      // An edited event may keep its original date even once it has passed
       const eventDate = new Date(date);
-      if (eventDate < new Date()) {
+      if (eventDate < new Date() && date !== event?.date) {
         throw new Error('Please select a future date');
       }
       
+      if (recurrence !== 'none' && recurrenceEnd && recurrenceEnd < date) {
+        throw new Error('The end date must be on or after the first date');
+      }
+      
       // Create the event object
       const newEvent: Omit<LiquidityEvent, 'id' | 'created_at' | 'updated_at'> = {
         user_id: userId,
         amount: numericAmount,
         currency: currency,
         date: date,
-        description: description
+        description: description,
+        direction: direction,
+        recurrence: recurrence,
+        recurrence_end: recurrence !== 'none' && recurrenceEnd ? recurrenceEnd : null
       };
       
-      // Make API call to create the event
-      const response = await fetch('/api/liquidity-events', {
-        method: 'POST',
+      // Make API call to create or update the event
+      const response = await fetch(isEditing ? `/api/liquidity-events?id=${event.id}` : '/api/liquidity-events', {
+        method: isEditing ? 'PATCH' : 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -87,14 +120,14 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
       
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to create liquidity event');
+        throw new Error(errorData.message || (isEditing ? 'Failed to update liquidity event' : 'Failed to create liquidity event'));
       }
       
-      const createdEvent = await response.json();
-      onEventAdded(createdEvent);
+      const savedEvent = await response.json();
+      onEventAdded(savedEvent);
       
     } catch (error) {
-      console.error('Error creating liquidity event:', error);
+      console.error(isEditing ? 'Error updating liquidity event:' : 'Error creating liquidity event:', error);
       setFormError(error instanceof Error ? error.message : 'An unknown error occurred');
     } finally {
       setIsSubmitting(false);
@@ -116,6 +149,25 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
       )}
       
       <div className="space-y-6">
+        <div className="grid grid-cols-2 gap-2">
+          {(['outflow', 'inflow'] as LiquidityDirection[]).map(value => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => selectDirection(value)}
+              className={`p-2 border rounded-md text-sm font-medium transition-colors ${
+                direction === value
+                  ? value === 'inflow'
+                    ? 'bg-emerald-50 dark:bg-emerald-900/30 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300'
+                    : 'bg-rose-50 dark:bg-rose-900/30 border-rose-200 dark:border-rose-800 text-rose-700 dark:text-rose-300'
+                  : 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+              }`}
+            >
+              {value === 'inflow' ? 'Money In' : 'Money Out'}
+            </button>
+          ))}
+        </div>
+        
         <div className="form-section bg-slate-200 dark:bg-gray-800">
           <h3 className="form-section-title flex items-center">
             <span className="icon-container icon-sm">
@@ -124,11 +176,11 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
                 <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
               </svg>
             </span>
-            Outflow Category
+            {isInflow ? 'Inflow Category' : 'Outflow Category'}
           </h3>
           
           <div className="mt-4 grid grid-cols-3 gap-2">
-            {outflowCategories.map((category) => (
+            {categories.map((category) => (
               <button
                 key={category.id}
                 type="button"
@@ -153,7 +205,7 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
                 <path fillRule="evenodd" d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z" clipRule="evenodd" />
               </svg>
             </span>
-            Outflow Details
+            {isInflow ? 'Inflow Details' : 'Outflow Details'}
           </h3>
           
           <div className="space-y-4 mt-4">
@@ -167,7 +219,7 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
                 className="form-input"
-                placeholder="E.g., Home down payment, Car purchase, etc."
+                placeholder={isInflow ? 'E.g., Annual bonus, Rent from flat, etc.' : 'E.g., Home down payment, Car purchase, etc.'}
                 required
               />
             </div>
@@ -192,13 +244,13 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
                   />
                 </div>
                 <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  Enter the amount needed for this expense.
+                  {isInflow ? 'Enter the amount you expect to receive.' : 'Enter the amount needed for this expense.'}
                 </p>
               </div>
               
               <div>
                 <label htmlFor="date" className="form-label">
-                  Expected Date <span className="text-rose-500">*</span>
+                  {recurrence !== 'none' ? 'First Date' : 'Expected Date'} <span className="text-rose-500">*</span>
                 </label>
                 <input
                   type="date"
@@ -209,7 +261,7 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
                   required
                 />
                 <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  When will you need this money?
+                  {isInflow ? 'When will you receive this money?' : 'When will you need this money?'}
                 </p>
               </div>
             </div>
@@ -231,6 +283,44 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
                 ))}
               </select>
             </div>
+            
+            <div className="form-row">
+              <div>
+                <label htmlFor="recurrence" className="form-label">
+                  Repeats
+                </label>
+                <select
+                  id="recurrence"
+                  value={recurrence}
+                  onChange={(e) => setRecurrence(e.target.value as RecurrenceFrequency)}
+                  className="form-select"
+                >
+                  {(Object.keys(RECURRENCE_NAMES) as RecurrenceFrequency[]).map(value => (
+                    <option key={value} value={value}>
+                      {RECURRENCE_NAMES[value]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              {recurrence !== 'none' && (
+                <div>
+                  <label htmlFor="recurrenceEnd" className="form-label">
+                    End Date
+                  </label>
+                  <input
+                    type="date"
+                    id="recurrenceEnd"
+                    value={recurrenceEnd}
+                    onChange={(e) => setRecurrenceEnd(e.target.value)}
+                    className="form-input date-input"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Leave empty for an ongoing event.
+                  </p>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -264,7 +354,7 @@ export default function OutflowForm({ userId, userCurrency, onEventAdded }: Outf
                   <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
                 </svg>
               </span>
-              Add Outflow
+              {isEditing ? 'Save Changes' : isInflow ? 'Add Inflow' : 'Add Outflow'}
             </>
           )}
         </button>
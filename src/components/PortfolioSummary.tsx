@@ -1,10 +1,16 @@
 'use client';
-import { FixedIncomeAsset, User, ASSET_GROUPS, CURRENCY_SYMBOLS, CurrencyCode } from '@/types';
-import { Doughnut } from 'react-chartjs-2';
-import { Chart as ChartJS, ArcElement, Tooltip, Legend, Title, TooltipItem } from 'chart.js';
-import { formatCurrency, getMarketValue, getTotalMarketValue, calculateYTM } from '@/lib/utils';
+import { FixedIncomeAsset, RegionalMarketData, User, ASSET_GROUPS, CURRENCY_SYMBOLS, CurrencyCode } from '@/types';
+import { Bar, Doughnut } from 'react-chartjs-2';
+import { Chart as ChartJS, ArcElement, BarElement, CategoryScale, LinearScale, Tooltip, Legend, Title, TooltipItem } from 'chart.js';
+import { formatCurrency, getMarketValue, getPriceSource, getTotalMarketValue, calculateWeightedAverage, calculateYieldToWorst } from '@/lib/utils';
+import { calculatePortfolioKeyRateDurations, calculatePortfolioRealYield, calculatePortfolioRiskMetrics, emptyKeyRateDurations, RiskMetrics } from '@/lib/analytics';
+import { analyzeConcentration, CONCENTRATION_LIMITS_BY_PROFILE, ExposureGroup } from '@/lib/concentration';
+import { calculatePortfolioCreditRisk, RATING_GRADES } from '@/lib/credit';
+import { convertAssets, FxConverter, getReportingMarketValue } from '@/lib/fx';
+import { format, parseISO } from 'date-fns';
+import KeyRateChart from './KeyRateChart';
 
-ChartJS.register(ArcElement, Tooltip, Legend, Title);
+ChartJS.register(ArcElement, BarElement, CategoryScale, LinearScale, Tooltip, Legend, Title);
 
 const chartColors = {
   backgroundColor: [
@@ -27,19 +33,39 @@ const chartColors = {
 interface PortfolioSummaryProps {
   assets: FixedIncomeAsset[];
   user: User;
+  // Converts holdings into the reporting currency; amounts are summed as-is when omitted
+  fx?: FxConverter;
+  // Regional curves the key-rate durations are measured against
+  marketData?: RegionalMarketData[];
 }
 
-export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps) {
+export default function PortfolioSummary({ assets, user, fx, marketData }: PortfolioSummaryProps) {
   // Get user's preferred currency or default to EUR
   const userCurrency = user?.currency || 'EUR';
   
+  // Holdings restated in the reporting currency; those without a rate are left out of the totals
+  const reportingAssets = fx ? convertAssets(assets, fx) : assets;
+  const heldCurrencies = assets.map(asset => asset.currency);
+  const rateDate = fx ? fx.getRateDate(heldCurrencies) : null;
+  const missingCurrencies = fx ? fx.getMissingCurrencies(heldCurrencies) : [];
+  const usesApproximateRates = !!fx && heldCurrencies.some(currency => fx.getRate(currency)?.approximate);
+  const modelPricedCount = assets.filter(asset => getPriceSource(asset) === 'model').length;
+  const costPricedCount = assets.filter(asset => getPriceSource(asset) === 'cost').length;
+  const concentrationLimits = CONCENTRATION_LIMITS_BY_PROFILE[user?.risk_tolerance] || CONCENTRATION_LIMITS_BY_PROFILE.moderate;
+  
   // Calculate portfolio metrics
   const calculateMetrics = () => {
-    if (assets.length === 0) {
+    if (reportingAssets.length === 0) {
       return {
         totalValue: 0,
         weightedYield: 0,
+        weightedEffectiveYield: 0,
+        weightedRealYield: 0,
         weightedMaturity: 0,
+        riskMetrics: { macaulayDuration: 0, modifiedDuration: 0, convexity: 0, dv01: 0 } as RiskMetrics,
+        keyRateDurations: emptyKeyRateDurations(),
+        creditRisk: calculatePortfolioCreditRisk([]),
+        concentration: analyzeConcentration([], concentrationLimits),
         typeDistribution: {
           government: 0,
           corporate: 0,
@@ -55,16 +81,17 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
     }
     
     const now = new Date();
-    const totalValue = getTotalMarketValue(assets);
+    const totalValue = getTotalMarketValue(reportingAssets);
     
-    // Calculate weighted average yield using YTM
-    const weightedYield = assets.reduce(
-      (sum, asset) => sum + (calculateYTM(asset) * getMarketValue(asset)),
-      0
-    ) / totalValue;
+    // Calculate weighted average yield using YTW, both as quoted and annual effective
+    const yields = new Map(reportingAssets.map(asset => [asset.id, calculateYieldToWorst(asset)]));
+    const weightedYield = calculateWeightedAverage(reportingAssets, asset => yields.get(asset.id)!.bondEquivalent);
+    const weightedEffectiveYield = calculateWeightedAverage(reportingAssets, asset => yields.get(asset.id)!.annualEffective);
+    // Real yield: inflation-linked bonds at their own real yield, others net of regional inflation
+    const weightedRealYield = calculatePortfolioRealYield(reportingAssets, marketData);
     
     // Calculate weighted average maturity in years (based on market value)
-    const weightedMaturity = assets.reduce(
+    const weightedMaturity = reportingAssets.reduce(
       (sum, asset) => {
         const maturityDate = new Date(asset.maturity_date);
         const yearsToMaturity = (maturityDate.getTime() - now.getTime()) / 
@@ -74,6 +101,14 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
       0
     ) / totalValue;
     
+    // Calculate duration, convexity and DV01 from each asset's cash-flow schedule
+    const riskMetrics = calculatePortfolioRiskMetrics(reportingAssets);
+    const keyRateDurations = calculatePortfolioKeyRateDurations(reportingAssets, marketData);
+    
+    // Calculate expected credit loss and the rating distribution from normalized ratings
+    const creditRisk = calculatePortfolioCreditRisk(reportingAssets);
+    const concentration = analyzeConcentration(reportingAssets, concentrationLimits);
+    
     // Calculate distribution by asset type group using market value
     const typeDistribution = {
       government: 0,
@@ -83,7 +118,7 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
       other: 0
     };
     
-    assets.forEach(asset => {
+    reportingAssets.forEach(asset => {
       // Map asset type to group
       let group: 'government' | 'corporate' | 'municipal' | 'savings' | 'other' = 'other';
       for (const [groupName, types] of Object.entries(ASSET_GROUPS)) {
@@ -95,17 +130,18 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
       typeDistribution[group] += getMarketValue(asset);
     });
     
-    // Calculate distribution by currency using market value
+    // Calculate distribution by holding currency using market value in the reporting currency
     const currencyDistribution = assets.reduce(
       (dist, asset) => {
-        dist[asset.currency] = (dist[asset.currency] || 0) + getMarketValue(asset);
+        const value = fx ? getReportingMarketValue(asset, fx) : getMarketValue(asset);
+        if (value > 0) dist[asset.currency] = (dist[asset.currency] || 0) + value;
         return dist;
       },
       {} as Record<string, number>
     );
     
     // Calculate distribution by region using market value
-    const regionDistribution = assets.reduce(
+    const regionDistribution = reportingAssets.reduce(
       (dist, asset) => {
         dist[asset.region] = (dist[asset.region] || 0) + getMarketValue(asset);
         return dist;
@@ -114,7 +150,7 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
     );
     
     // Calculate taxable vs tax exempt using market value
-    const taxableAmount = assets.reduce(
+    const taxableAmount = reportingAssets.reduce(
       (sum, asset) => sum + (asset.taxable ? getMarketValue(asset) : 0),
       0
     );
@@ -123,7 +159,13 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
     return {
       totalValue,
       weightedYield,
+      weightedEffectiveYield,
+      weightedRealYield,
       weightedMaturity,
+      riskMetrics,
+      keyRateDurations,
+      creditRisk,
+      concentration,
       typeDistribution,
       currencyDistribution,
       regionDistribution,
@@ -190,6 +232,55 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
     ],
   };
   
+  // Prepare data for rating distribution, best grade first with unrated holdings last
+  const ratingData = {
+    labels: [...RATING_GRADES, 'Unrated'],
+    datasets: [
+      {
+        data: [
+          ...RATING_GRADES.map(grade => metrics.creditRisk.distribution[grade]),
+          metrics.creditRisk.unratedValue
+        ],
+        backgroundColor: [
+          ...RATING_GRADES.map(grade => (['AAA', 'AA', 'A', 'BBB'].includes(grade)
+            ? 'rgba(79, 70, 229, 0.8)' // indigo - investment grade
+            : 'rgba(236, 72, 153, 0.8)')), // pink - high yield
+          'rgba(156, 163, 175, 0.8)' // gray - unrated
+        ],
+        borderWidth: 0,
+        borderRadius: 4
+      },
+    ],
+  };
+  
+  const ratingChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: 'rgba(241, 245, 249, 0.95)', // slate-100 with slight transparency
+        titleColor: '#1e293b', // slate-800
+        bodyColor: '#334155', // slate-700
+        borderColor: '#cbd5e1', // slate-300
+        borderWidth: 1,
+        cornerRadius: 8,
+        padding: 12,
+        callbacks: {
+          label: function(tooltipItem: TooltipItem<'bar'>) {
+            const value = tooltipItem.raw as number;
+            const percentage = (value / metrics.totalValue * 100).toFixed(1);
+            return `${formatCurrency(value, userCurrency as CurrencyCode)} (${percentage}%)`;
+          }
+        }
+      }
+    },
+    scales: {
+      x: { grid: { display: false }, ticks: { color: '#6b7280', font: { size: 10 } } },
+      y: { ticks: { display: false }, grid: { color: 'rgba(203, 213, 225, 0.4)' } }
+    }
+  };
+  
   // Chart options
   const chartOptions = {
     responsive: true,
@@ -249,10 +340,28 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
               ? `${assets.length} fixed income assets managed` 
               : "Add your first asset to begin"}
           </div>
+          {rateDate && (
+            <div className="mt-1 text-indigo-100 text-xs">
+              Converted at {usesApproximateRates ? 'approximate ' : ''}rates as of {format(parseISO(rateDate), 'MMM d, yyyy')}
+            </div>
+          )}
+          {missingCurrencies.length > 0 && (
+            <div className="mt-1 text-amber-200 text-xs">
+              No exchange rate for {missingCurrencies.join(', ')}; excluded from totals
+            </div>
+          )}
+          {(modelPricedCount > 0 || costPricedCount > 0) && (
+            <div className="mt-1 text-indigo-100 text-xs">
+              {[
+                modelPricedCount > 0 ? `${modelPricedCount} valued by model` : '',
+                costPricedCount > 0 ? `${costPricedCount} valued at cost` : ''
+              ].filter(Boolean).join(', ')}
+            </div>
+          )}
         </div>
         
         <div className="stat-card">
-          <p className="stat-card-title">Weighted Avg. Yield</p>
+          <p className="stat-card-title">Weighted Avg. Yield to Worst</p>
           <div className="flex items-end">
             <p className="stat-card-value text-emerald-600 dark:text-emerald-600">{(metrics.weightedYield || 0).toFixed(2)}%</p>
             {metrics.weightedYield > 3.5 && (
@@ -269,6 +378,9 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
           <div className="progress-bar mt-2">
             <div className="progress-bar-fill bg-emerald-600 dark:bg-emerald-600" style={{ width: `${Math.min(100, metrics.weightedYield * 20)}%` }}></div>
           </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            {(metrics.weightedEffectiveYield || 0).toFixed(2)}% annual effective · {(metrics.weightedRealYield || 0).toFixed(2)}% real
+          </p>
         </div>
         
         <div className="stat-card">
@@ -287,6 +399,86 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
         </div>
       </div>
       
+      {/* Rate risk */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="stat-card p-4">
+          <p className="stat-card-title">Macaulay Duration</p>
+          <p className="text-xl font-bold text-gray-900 dark:text-white">
+            {metrics.riskMetrics.macaulayDuration.toFixed(2)} <span className="text-sm font-medium">years</span>
+          </p>
+        </div>
+        <div className="stat-card p-4">
+          <p className="stat-card-title">Modified Duration</p>
+          <p className="text-xl font-bold text-gray-900 dark:text-white">
+            {metrics.riskMetrics.modifiedDuration.toFixed(2)}
+          </p>
+        </div>
+        <div className="stat-card p-4">
+          <p className="stat-card-title">Convexity</p>
+          <p className="text-xl font-bold text-gray-900 dark:text-white">
+            {metrics.riskMetrics.convexity.toFixed(1)}
+          </p>
+        </div>
+        <div className="stat-card p-4">
+          <p className="stat-card-title">DV01</p>
+          <p className="text-xl font-bold text-gray-900 dark:text-white">
+            {formatCurrency(metrics.riskMetrics.dv01, userCurrency as CurrencyCode)}
+          </p>
+          <p className="stat-card-desc text-xs">per basis point</p>
+        </div>
+      </div>
+
+      {/* Key-rate durations */}
+      {reportingAssets.length > 0 && (
+        <div className="bg-slate-100 dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Key-Rate Durations</h3>
+          <KeyRateChart durations={metrics.keyRateDurations} />
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Percentage value change for a 1% move in each key rate alone; the bars add up to the effective duration.
+          </p>
+        </div>
+      )}
+      
+      {/* Issuer, issuer group and sector concentration */}
+      {reportingAssets.length > 0 && (
+        <div className="bg-slate-100 dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Concentration</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {([
+              ['Issuers', metrics.concentration.issuers, metrics.concentration.issuerHhi],
+              ['Issuer Groups', metrics.concentration.parents, metrics.concentration.parentHhi],
+              ['Sectors', metrics.concentration.sectors, metrics.concentration.sectorHhi]
+            ] as [string, ExposureGroup[], number][]).map(([title, groups, hhi]) => (
+              <div key={title}>
+                <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+                  {title} <span className="font-normal">(HHI {hhi.toFixed(0)})</span>
+                </p>
+                <div className="space-y-1 text-sm">
+                  {groups.slice(0, 5).map(group => (
+                    <p key={group.key} className="flex justify-between gap-2">
+                      <span className="text-gray-700 dark:text-gray-300 truncate">{group.name}</span>
+                      <span className={group.limit !== null && group.weight > group.limit
+                        ? 'font-medium text-rose-600 dark:text-rose-400'
+                        : 'text-gray-800 dark:text-gray-200'}>
+                        {(group.weight * 100).toFixed(1)}%
+                      </span>
+                    </p>
+                  ))}
+                  {groups.length > 5 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">+{groups.length - 5} more</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Equivalent to {metrics.concentration.effectiveIssuers.toFixed(1)} equally weighted issuers.
+            Limits for your profile: {(concentrationLimits.maxIssuerWeight * 100).toFixed(0)}% per issuer, {(concentrationLimits.maxParentWeight * 100).toFixed(0)}% per group and {(concentrationLimits.maxSectorWeight * 100).toFixed(0)}% per sector
+            {concentrationLimits.exemptIssuerTypes.length > 0 && `, with ${concentrationLimits.exemptIssuerTypes.join(' and ')} debt exempt`}.
+          </p>
+        </div>
+      )}
+
       {/* Charts section */}
       <div className="flex-1">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -330,6 +522,30 @@ export default function PortfolioSummary({ assets, user }: PortfolioSummaryProps
             </div>
           </div>
           
+          <div className="bg-slate-100 dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700 col-span-1 flex flex-col">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Rating Distribution</h3>
+            <div className="flex-1 relative min-h-[150px]">
+              {assets.length > 0 ? (
+                <Bar data={ratingData} options={ratingChartOptions} />
+              ) : (
+                <div className="flex items-center justify-center h-full">
+                  <p className="text-gray-400 dark:text-gray-600 text-sm">No assets yet</p>
+                </div>
+              )}
+            </div>
+            {assets.length > 0 && (
+              <div className="mt-3 text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                <p>
+                  Expected loss {formatCurrency(metrics.creditRisk.expectedLoss, userCurrency as CurrencyCode)} a year
+                  ({metrics.creditRisk.expectedLossBps.toFixed(1)} bp), {formatCurrency(metrics.creditRisk.lifetimeExpectedLoss, userCurrency as CurrencyCode)} to maturity
+                </p>
+                {metrics.creditRisk.averageRating && (
+                  <p>Average rating {metrics.creditRisk.averageRating}{metrics.creditRisk.unratedValue > 0 ? ', with unrated holdings at their issuer type\'s assumed rating' : ''}</p>
+                )}
+              </div>
+            )}
+          </div>
+          
           {assets.length > 0 && Object.keys(metrics.currencyDistribution).length > 0 && (
             <div className="bg-slate-100 dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700 col-span-1 flex flex-col">
               <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -31,11 +31,26 @@ export default function RecommendationPanel({ recommendations, user }: Recommend
       icon: '📊',
       description: 'Suggestions to improve portfolio balance'
     },
+    concentration: {
+      name: 'Concentration',
+      icon: '🎯',
+      description: 'Exposure to single issuers, issuer groups and sectors above your limits'
+    },
+    credit: {
+      name: 'Credit',
+      icon: '🏦',
+      description: 'Expected default losses and rating quality of your holdings'
+    },
     laddering: {
       name: 'Bond Laddering',
       icon: '🪜',
       description: 'Strategies for staggering maturities to balance returns and liquidity'
     },
+    immunization: {
+      name: 'Immunization',
+      icon: '🛡️',
+      description: 'Rebalancing so interest rate moves do not put your future liabilities at risk'
+    },
     liquidity: {
       name: 'Liquidity',
       icon: '💧',
@@ -68,7 +83,10 @@ export default function RecommendationPanel({ recommendations, user }: Recommend
     switch(category) {
       case 'rollover': return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300';
       case 'diversification': return 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300';
+      case 'concentration': return 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300';
+      case 'credit': return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300';
       case 'laddering': return 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300';
+      case 'immunization': return 'bg-violet-100 text-violet-800 dark:bg-violet-900/30 dark:text-violet-300';
       case 'liquidity': return 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/30 dark:text-cyan-300';
       case 'currency': return 'bg-fuchsia-100 text-fuchsia-800 dark:bg-fuchsia-900/30 dark:text-fuchsia-300';
       case 'regional': return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300';
@@ -154,7 +172,9 @@ export default function RecommendationPanel({ recommendations, user }: Recommend
             <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 max-w-sm">
               {activeTab === 'rollover' && "We'll suggest options when your assets approach maturity."}
               {activeTab === 'diversification' && "Add more assets to receive portfolio balance suggestions."}
+              {activeTab === 'concentration' && "Your issuer and sector exposures are within the limits of your risk profile."}
               {activeTab === 'laddering' && "Laddering strategies will appear as you add more bonds."}
+              {activeTab === 'immunization' && "Add upcoming liquidity needs to see how to protect them from rate moves."}
               {activeTab === 'liquidity' && "Add upcoming liquidity needs to get personalized recommendations."}
               {activeTab === 'currency' && "Add assets with different currencies to see currency management strategies."}
               {activeTab === 'regional' && "Add assets from different regions to see regional diversification tips."}
@@ -177,7 +197,10 @@ export default function RecommendationPanel({ recommendations, user }: Recommend
                 className="bg-slate-100 dark:bg-gray-800 rounded-lg p-4 shadow-sm border-l-4 hover:shadow-md transition-shadow"
                 style={{ borderLeftColor: rec.category === 'rollover' ? '#60a5fa' : 
                                         rec.category === 'diversification' ? '#818cf8' :
+                                        rec.category === 'concentration' ? '#2dd4bf' :
+                                        rec.category === 'credit' ? '#fb923c' :
                                         rec.category === 'laddering' ? '#fbbf24' :
+                                        rec.category === 'immunization' ? '#8b5cf6' :
                                         rec.category === 'liquidity' ? '#22d3ee' :
                                         rec.category === 'currency' ? '#d946ef' :
                                         rec.category === 'regional' ? '#10b981' :
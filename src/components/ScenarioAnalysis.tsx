@@ -0,0 +1,230 @@
+'use client';
+import { useMemo, useState } from 'react';
+import { CurrencyCode, FixedIncomeAsset, RegionalMarketData, User, ASSET_TYPE_NAMES, REGIONS } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { FxConverter } from '@/lib/fx';
+import { DEFAULT_SCENARIOS, KEY_RATE_TENORS, KeyRateTenor, RateScenario, runScenarios } from '@/lib/scenarios';
+
+interface ScenarioAnalysisProps {
+  assets: FixedIncomeAsset[];
+  marketData: RegionalMarketData[];
+  user: User;
+  fx?: FxConverter;
+}
+
+const regionNames = Object.fromEntries(
+  REGIONS.map(region => [region.code, region.name])
+);
+
+export default function ScenarioAnalysis({ assets, marketData, user, fx }: ScenarioAnalysisProps) {
+  const userCurrency = (fx?.reportingCurrency || user?.currency || 'EUR') as CurrencyCode;
+  const [region, setRegion] = useState('all');
+  const [customParallel, setCustomParallel] = useState('');
+  const [customShort, setCustomShort] = useState('');
+  const [customLong, setCustomLong] = useState('');
+  const [customKeyRates, setCustomKeyRates] = useState<Partial<Record<KeyRateTenor, string>>>({});
+  const [selectedId, setSelectedId] = useState(DEFAULT_SCENARIOS[2].id);
+
+  // The custom scenario is only run once at least one of its shifts is set
+  const customScenario = useMemo((): RateScenario | null => {
+    const parallelBps = parseFloat(customParallel) || 0;
+    const shortBps = parseFloat(customShort) || 0;
+    const longBps = parseFloat(customLong) || 0;
+    const keyRateBps: Partial<Record<KeyRateTenor, number>> = {};
+    KEY_RATE_TENORS.forEach(tenor => {
+      const bps = parseFloat(customKeyRates[tenor] || '');
+      if (bps) keyRateBps[tenor] = bps;
+    });
+
+    if (!parallelBps && !shortBps && !longBps && Object.keys(keyRateBps).length === 0) return null;
+    return {
+      id: 'custom',
+      name: 'Custom scenario',
+      parallelBps,
+      twist: shortBps || longBps ? { shortBps, longBps } : undefined,
+      keyRateBps
+    };
+  }, [customParallel, customShort, customLong, customKeyRates]);
+
+  const results = useMemo(() => {
+    const scenarios = [...DEFAULT_SCENARIOS, ...(customScenario ? [customScenario] : [])]
+      .map(scenario => (region === 'all' ? scenario : { ...scenario, regions: [region] }));
+    return runScenarios(assets, scenarios, { marketData, fx });
+  }, [assets, marketData, fx, region, customScenario]);
+
+  const selected = results.find(result => result.scenario.id === selectedId) || results[0];
+
+  const pnlClass = (value: number) => (value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400');
+
+  const renderBreakdown = (title: string, values: Record<string, number>, label: (key: string) => string) => (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{title}</h3>
+      <table className="saas-table">
+        <tbody>
+          {Object.entries(values)
+            .filter(([, value]) => Math.abs(value) >= 0.005)
+            .sort((a, b) => a[1] - b[1])
+            .map(([key, value]) => (
+              <tr key={key}>
+                <td>{label(key)}</td>
+                <td className={`text-right ${pnlClass(value)}`}>{formatCurrency(value, userCurrency)}</td>
+              </tr>
+            ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  if (assets.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">Add assets to your portfolio to run rate scenarios.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="form-section bg-slate-200 dark:bg-gray-800">
+        <h3 className="form-section-title">Scenario Settings</h3>
+        <div className="space-y-4 mt-4">
+          <div className="form-row">
+            <div>
+              <label htmlFor="scenarioRegion" className="form-label">Curves Shocked</label>
+              <select
+                id="scenarioRegion"
+                value={region}
+                onChange={(e) => setRegion(e.target.value)}
+                className="form-select"
+              >
+                <option value="all">All regions</option>
+                {REGIONS.map(r => (
+                  <option key={r.code} value={r.code}>{r.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="customParallel" className="form-label">Custom Parallel Shift (bp)</label>
+              <input
+                type="number"
+                id="customParallel"
+                value={customParallel}
+                onChange={(e) => setCustomParallel(e.target.value)}
+                className="form-input"
+                placeholder="0"
+              />
+            </div>
+          </div>
+          <div className="form-row">
+            <div>
+              <label htmlFor="customShort" className="form-label">Custom Short End, 2Y and under (bp)</label>
+              <input
+                type="number"
+                id="customShort"
+                value={customShort}
+                onChange={(e) => setCustomShort(e.target.value)}
+                className="form-input"
+                placeholder="0"
+              />
+            </div>
+            <div>
+              <label htmlFor="customLong" className="form-label">Custom Long End, 10Y and over (bp)</label>
+              <input
+                type="number"
+                id="customLong"
+                value={customLong}
+                onChange={(e) => setCustomLong(e.target.value)}
+                className="form-input"
+                placeholder="0"
+              />
+            </div>
+          </div>
+          <div>
+            <p className="form-label">Custom Key-Rate Bumps (bp)</p>
+            <div className="grid grid-cols-7 gap-2">
+              {KEY_RATE_TENORS.map(tenor => (
+                <div key={tenor}>
+                  <label htmlFor={`keyRate${tenor}`} className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{tenor}</label>
+                  <input
+                    type="number"
+                    id={`keyRate${tenor}`}
+                    value={customKeyRates[tenor] || ''}
+                    onChange={(e) => setCustomKeyRates(prev => ({ ...prev, [tenor]: e.target.value }))}
+                    className="form-input"
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Scenario P&amp;L</h3>
+        <table className="saas-table">
+          <thead>
+            <tr>
+              <th>Scenario</th>
+              <th className="text-right">P&amp;L</th>
+              <th className="text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(result => (
+              <tr
+                key={result.scenario.id}
+                onClick={() => setSelectedId(result.scenario.id)}
+                className={`cursor-pointer ${result.scenario.id === selected?.scenario.id ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}`}
+              >
+                <td>{result.scenario.name}</td>
+                <td className={`text-right ${pnlClass(result.pnl)}`}>{formatCurrency(result.pnl, userCurrency)}</td>
+                <td className={`text-right ${pnlClass(result.pnl)}`}>{result.pnlPercent.toFixed(2)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Each holding is repriced at its spread over the latest {region === 'all' ? 'regional' : regionNames[region]} curve; select a scenario for the breakdown.
+        </p>
+      </div>
+
+      {selected && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderBreakdown('By Asset Group', selected.byGroup, key => key.charAt(0).toUpperCase() + key.slice(1))}
+            {renderBreakdown('By Region', selected.byRegion, key => regionNames[key] || key)}
+            {renderBreakdown('By Currency', selected.byCurrency, key => key)}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">By Asset: {selected.scenario.name}</h3>
+            <table className="saas-table">
+              <thead>
+                <tr>
+                  <th>Asset</th>
+                  <th className="text-right">Value</th>
+                  <th className="text-right">Shocked Value</th>
+                  <th className="text-right">P&amp;L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...selected.assets].sort((a, b) => a.pnl - b.pnl).map(result => (
+                  <tr key={result.asset.id}>
+                    <td>
+                      {result.asset.name}
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {ASSET_TYPE_NAMES[result.asset.type] || result.asset.type} · {regionNames[result.asset.region] || result.asset.region}
+                      </span>
+                    </td>
+                    <td className="text-right">{formatCurrency(result.baseValue, userCurrency)}</td>
+                    <td className="text-right">{formatCurrency(result.shockedValue, userCurrency)}</td>
+                    <td className={`text-right ${pnlClass(result.pnl)}`}>{formatCurrency(result.pnl, userCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+import { useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+import { Chart as ChartJS, BarElement, CategoryScale, LinearScale, Tooltip, TooltipItem } from 'chart.js';
+import { CurrencyCode, FixedIncomeAsset, RegionalMarketData, User } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { FxConverter } from '@/lib/fx';
+import { runMonteCarlo, SimulationResult } from '@/lib/simulation';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip);
+
+interface ValueAtRiskProps {
+  assets: FixedIncomeAsset[];
+  marketData: RegionalMarketData[];
+  user: User;
+  fx?: FxConverter;
+}
+
+// Buckets of the P&L histogram
+const HISTOGRAM_BINS = 30;
+
+const parseList = (value: string) => value
+  .split(',')
+  .map(item => parseFloat(item.trim()))
+  .filter(item => !isNaN(item) && item > 0);
+
+export default function ValueAtRisk({ assets, marketData, user, fx }: ValueAtRiskProps) {
+  const userCurrency = (fx?.reportingCurrency || user?.currency || 'EUR') as CurrencyCode;
+  const [seed, setSeed] = useState('42');
+  const [paths, setPaths] = useState('2000');
+  const [horizons, setHorizons] = useState('10, 30, 365');
+  const [confidenceLevels, setConfidenceLevels] = useState('95, 99');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [selectedHorizon, setSelectedHorizon] = useState(0);
+  const [running, setRunning] = useState(false);
+
+  // The simulation is only run on request, as it revalues every holding on every path
+  const handleRun = () => {
+    setRunning(true);
+    // Let the button state render before the simulation blocks the main thread
+    setTimeout(() => {
+      setResult(runMonteCarlo(assets, {
+        seed: parseInt(seed) || 0,
+        paths: Math.min(20000, parseInt(paths) || 2000),
+        horizonsDays: parseList(horizons).map(Math.round),
+        confidenceLevels: parseList(confidenceLevels).filter(level => level < 100).map(level => level / 100),
+        marketData,
+        fx
+      }));
+      setSelectedHorizon(0);
+      setRunning(false);
+    }, 0);
+  };
+
+  const horizon = result?.horizons[selectedHorizon];
+
+  const histogram = (() => {
+    if (!horizon || horizon.pnl.length === 0) return null;
+    const min = horizon.pnl[0];
+    const max = horizon.pnl[horizon.pnl.length - 1];
+    const width = (max - min) / HISTOGRAM_BINS || 1;
+    const counts = new Array(HISTOGRAM_BINS).fill(0);
+    horizon.pnl.forEach(value => {
+      counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))]++;
+    });
+    return {
+      labels: counts.map((_, k) => formatCurrency(min + (k + 0.5) * width, userCurrency)),
+      datasets: [{
+        data: counts,
+        backgroundColor: counts.map((_, k) => (min + (k + 0.5) * width < 0
+          ? 'rgba(244, 63, 94, 0.7)' // rose - losses
+          : 'rgba(16, 185, 129, 0.7)')), // emerald - gains
+        borderWidth: 0
+      }]
+    };
+  })();
+
+  const histogramOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: 'rgba(241, 245, 249, 0.95)', // slate-100 with slight transparency
+        titleColor: '#1e293b', // slate-800
+        bodyColor: '#334155', // slate-700
+        borderColor: '#cbd5e1', // slate-300
+        borderWidth: 1,
+        cornerRadius: 8,
+        padding: 10,
+        callbacks: {
+          label: (tooltipItem: TooltipItem<'bar'>) => `${tooltipItem.raw} paths`
+        }
+      }
+    },
+    scales: {
+      x: { grid: { display: false }, ticks: { color: '#6b7280', font: { size: 9 }, maxTicksLimit: 8 } },
+      y: { ticks: { color: '#6b7280', font: { size: 10 } } }
+    }
+  };
+
+  if (assets.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">Add assets to your portfolio to simulate value at risk.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="form-section bg-slate-200 dark:bg-gray-800">
+        <h3 className="form-section-title">Simulation Settings</h3>
+        <div className="space-y-4 mt-4">
+          <div className="form-row">
+            <div>
+              <label htmlFor="varSeed" className="form-label">Seed</label>
+              <input
+                type="number"
+                id="varSeed"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                className="form-input"
+              />
+            </div>
+            <div>
+              <label htmlFor="varPaths" className="form-label">Paths</label>
+              <input
+                type="number"
+                id="varPaths"
+                value={paths}
+                onChange={(e) => setPaths(e.target.value)}
+                className="form-input"
+                min="100"
+                max="20000"
+              />
+            </div>
+          </div>
+          <div className="form-row">
+            <div>
+              <label htmlFor="varHorizons" className="form-label">Horizons (days)</label>
+              <input
+                type="text"
+                id="varHorizons"
+                value={horizons}
+                onChange={(e) => setHorizons(e.target.value)}
+                className="form-input"
+                placeholder="E.g., 10, 30, 365"
+              />
+            </div>
+            <div>
+              <label htmlFor="varConfidence" className="form-label">Confidence Levels (%)</label>
+              <input
+                type="text"
+                id="varConfidence"
+                value={confidenceLevels}
+                onChange={(e) => setConfidenceLevels(e.target.value)}
+                className="form-input"
+                placeholder="E.g., 95, 99"
+              />
+            </div>
+          </div>
+          <button onClick={handleRun} className="btn-primary" disabled={running}>
+            {running ? 'Simulating...' : 'Run Simulation'}
+          </button>
+        </div>
+      </div>
+
+      {result && (
+        <>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Value at Risk and Expected Shortfall</h3>
+            <table className="saas-table">
+              <thead>
+                <tr>
+                  <th>Horizon</th>
+                  <th className="text-right">Expected P&amp;L</th>
+                  {result.horizons[0]?.measures.map(measure => (
+                    <th key={measure.confidence} className="text-right">
+                      VaR / ES {(measure.confidence * 100).toFixed(1).replace(/\.0$/, '')}%
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.horizons.map((item, h) => (
+                  <tr
+                    key={item.horizonDays}
+                    onClick={() => setSelectedHorizon(h)}
+                    className={`cursor-pointer ${h === selectedHorizon ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}`}
+                  >
+                    <td>{item.horizonDays} days</td>
+                    <td className="text-right">{formatCurrency(item.expectedPnl, userCurrency)}</td>
+                    {item.measures.map(measure => (
+                      <td key={measure.confidence} className="text-right">
+                        {formatCurrency(measure.valueAtRisk, userCurrency)}
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {formatCurrency(measure.expectedShortfall, userCurrency)}
+                        </span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {result.paths.toLocaleString()} paths with seed {result.seed} on {formatCurrency(result.baseValue, userCurrency)} of holdings, including interest received by each horizon.
+              Rates, exchange rates and ratings move together; the same seed reproduces the same figures.
+            </p>
+          </div>
+
+          {histogram && horizon && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">P&amp;L Distribution at {horizon.horizonDays} Days</h3>
+              <div style={{ height: 200 }}>
+                <Bar data={histogram} options={histogramOptions} />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { parseISO } from 'date-fns';
+import { FixedIncomeAsset, RegionalMarketData } from '@/types';
+import { getRemainingCashFlows, presentValue, solveYieldToMaturity, solveYieldToWorst } from '@/lib/yield';
+import { calculateWeightedAverage, getDirtyMarketValue, getMarketValue } from '@/lib/utils';
+import { calculateAccruedInterest } from '@/lib/cashflows';
+import { getCurveYears, YieldCurve } from '@/lib/curves';
+import { DEFAULT_PROJECTED_INFLATION, getIndexRatio, getReferenceCpi } from '@/lib/inflation';
+import { getLatestMarketData } from '@/lib/marketData';
+import { getCreditSpread, getRegionCurve } from '@/lib/pricing';
+import { calibrateAsset, getKeyRateWeight, getShockedValueChange, KEY_RATE_TENORS, KeyRateTenor } from '@/lib/scenarios';
+
+/**
+ * Interest rate risk measures of an asset or portfolio
+ */
+export interface RiskMetrics {
+  // Present-value-weighted time to cash flows, in years
+  macaulayDuration: number;
+  // Percentage price change for a 1% change in yield
+  modifiedDuration: number;
+  // Effective convexity from symmetric yield bumps, in years squared
+  convexity: number;
+  // Value change for a 1 basis point fall in yield, in the asset's currency
+  dv01: number;
+}
+
+/**
+ * Indexation and real-return measures of an inflation-linked bond
+ */
+export interface InflationLinkedAnalytics {
+  referenceCpi: number;
+  indexRatio: number;
+  // Face value times the index ratio, in the asset's currency
+  indexedPrincipal: number;
+  // Yield of the unindexed cash flows at the market value deflated by the index ratio, in percent
+  realYield: number;
+  // Zero rate of the nominal curve at the bond's maturity plus its credit spread, in percent
+  nominalYield: number | null;
+  // Inflation at which the bond and a nominal bond of the same maturity return the same, in percent
+  breakevenInflation: number | null;
+}
+
+/**
+ * Price sensitivity to each key rate, in years: the percentage price change for a 1% move
+ * in that key rate alone. The durations add up to the effective duration.
+ */
+export type KeyRateDurations = Record<KeyRateTenor, number>;
+
+// Yield bump used for effective convexity (10 basis points, annualized)
+const CONVEXITY_BUMP = 0.001;
+
+// Key-rate bump used for key-rate durations, in basis points
+const KEY_RATE_BUMP_BPS = 1;
+
+const EMPTY_METRICS: RiskMetrics = {
+  macaulayDuration: 0,
+  modifiedDuration: 0,
+  convexity: 0,
+  dv01: 0
+};
+
+/**
+ * Calculate Macaulay and modified duration, effective convexity and DV01 of an asset
+ * from its remaining cash-flow schedule, discounted at its yield to maturity
+ */
+export function calculateRiskMetrics(
+  asset: FixedIncomeAsset,
+  price: number = getDirtyMarketValue(asset),
+  settlement: Date = new Date()
+): RiskMetrics {
+  const ytm = solveYieldToMaturity(asset, price, settlement);
+  const periodsPerYear = ytm.periodsPerYear;
+  const periodicYield = ytm.bondEquivalent / 100 / periodsPerYear;
+  if (!price || price <= 0 || periodicYield <= -1) return EMPTY_METRICS;
+
+  const isPerpetual = asset.type === 'perpetualBond' || !asset.maturity_date;
+  const flows = isPerpetual ? [] : getRemainingCashFlows(asset, settlement);
+  if (!isPerpetual && flows.length === 0) return EMPTY_METRICS;
+
+  // Perpetuals are priced as a level perpetuity: coupon / periodic yield
+  const coupon = asset.face_value * (asset.interest_rate / 100) / periodsPerYear;
+  const priceAt = (y: number) => isPerpetual ? coupon / y : presentValue(flows, y);
+
+  const basePrice = priceAt(periodicYield);
+  if (!isFinite(basePrice) || basePrice <= 0) return EMPTY_METRICS;
+
+  const macaulayPeriods = isPerpetual
+    ? (1 + periodicYield) / periodicYield
+    : flows.reduce(
+        (sum, flow) => sum + flow.periods * flow.amount / Math.pow(1 + periodicYield, flow.periods),
+        0
+      ) / basePrice;
+
+  const macaulayDuration = macaulayPeriods / periodsPerYear;
+  const modifiedDuration = macaulayDuration / (1 + periodicYield);
+
+  const bump = CONVEXITY_BUMP / periodsPerYear;
+  const priceDown = priceAt(periodicYield - bump);
+  const priceUp = priceAt(periodicYield + bump);
+  const convexity = (priceDown + priceUp - 2 * basePrice) / (basePrice * CONVEXITY_BUMP * CONVEXITY_BUMP);
+
+  return {
+    macaulayDuration,
+    modifiedDuration,
+    convexity,
+    dv01: modifiedDuration * price * 0.0001
+  };
+}
+
+/**
+ * Calculate market-value-weighted risk metrics for a portfolio.
+ * Durations and convexity are weighted averages; DV01 is the sum across holdings.
+ */
+export function calculatePortfolioRiskMetrics(assets: FixedIncomeAsset[]): RiskMetrics {
+  if (!assets || assets.length === 0) return EMPTY_METRICS;
+
+  const metrics = new Map(assets.map(asset => [asset.id, calculateRiskMetrics(asset)]));
+
+  return {
+    macaulayDuration: calculateWeightedAverage(assets, asset => metrics.get(asset.id)!.macaulayDuration),
+    modifiedDuration: calculateWeightedAverage(assets, asset => metrics.get(asset.id)!.modifiedDuration),
+    convexity: calculateWeightedAverage(assets, asset => metrics.get(asset.id)!.convexity),
+    dv01: assets.reduce((sum, asset) => sum + metrics.get(asset.id)!.dv01, 0)
+  };
+}
+
+/**
+ * Key-rate durations with every tenor at zero
+ */
+export function emptyKeyRateDurations(): KeyRateDurations {
+  return Object.fromEntries(KEY_RATE_TENORS.map(tenor => [tenor, 0])) as KeyRateDurations;
+}
+
+/**
+ * Key-rate durations of an asset from symmetric bumps of each key rate, repricing the asset at
+ * the spread over the curve (or over zero, without one) that matches its market value
+ */
+export function calculateKeyRateDurations(
+  asset: FixedIncomeAsset,
+  curve: YieldCurve | null = null,
+  settlement: Date = new Date()
+): KeyRateDurations {
+  const durations = emptyKeyRateDurations();
+  const calibrated = calibrateAsset(asset, curve, settlement);
+  if (!calibrated) return durations;
+
+  KEY_RATE_TENORS.forEach(tenor => {
+    const bump = (sign: number) => (years: number) => sign * KEY_RATE_BUMP_BPS * getKeyRateWeight(tenor, years);
+    const up = getShockedValueChange(calibrated, bump(1), settlement);
+    const down = getShockedValueChange(calibrated, bump(-1), settlement);
+    durations[tenor] = (down - up) / (2 * KEY_RATE_BUMP_BPS / 10000 * calibrated.dirtyValue);
+  });
+  return durations;
+}
+
+/**
+ * Market-value-weighted key-rate durations of a portfolio, each holding measured against the
+ * latest curve of its region
+ */
+export function calculatePortfolioKeyRateDurations(
+  assets: FixedIncomeAsset[],
+  marketData: RegionalMarketData[] = []
+): KeyRateDurations {
+  const durations = emptyKeyRateDurations();
+  if (!assets || assets.length === 0) return durations;
+
+  const curves = new Map<string, YieldCurve | null>();
+  const byAsset = new Map(assets.map(asset => {
+    if (!curves.has(asset.region)) curves.set(asset.region, getRegionCurve(marketData, asset.region));
+    return [asset.id, calculateKeyRateDurations(asset, curves.get(asset.region)!)];
+  }));
+
+  KEY_RATE_TENORS.forEach(tenor => {
+    durations[tenor] = calculateWeightedAverage(assets, asset => byAsset.get(asset.id)![tenor]);
+  });
+  return durations;
+}
+
+/**
+ * Index ratio, real yield and breakeven inflation of an indexed inflation-linked bond; the
+ * breakeven compares its real yield with the nominal curve of its region (Fisher relation).
+ * Returns null for assets without indexation.
+ */
+export function analyzeInflationLinked(
+  asset: FixedIncomeAsset,
+  curve: YieldCurve | null = null,
+  settlement: Date = new Date()
+): InflationLinkedAnalytics | null {
+  if (!asset.indexation) return null;
+
+  const indexRatio = getIndexRatio(asset.indexation, settlement);
+  const dirtyValue = getMarketValue(asset) + calculateAccruedInterest(asset, settlement);
+  const real = solveYieldToMaturity({ ...asset, indexation: undefined }, dirtyValue / indexRatio, settlement);
+
+  const isPerpetual = asset.type === 'perpetualBond' || !asset.maturity_date;
+  const nominalYield = curve && !isPerpetual
+    ? curve.zeroRate(getCurveYears(settlement, parseISO(asset.maturity_date))) + getCreditSpread(asset) / 100
+    : null;
+
+  return {
+    referenceCpi: getReferenceCpi(asset.indexation, settlement),
+    indexRatio,
+    indexedPrincipal: asset.face_value * indexRatio,
+    realYield: real.bondEquivalent,
+    nominalYield,
+    breakevenInflation: nominalYield !== null && real.converged
+      ? ((1 + nominalYield / 100) / (1 + real.annualEffective / 100) - 1) * 100
+      : null
+  };
+}
+
+/**
+ * Real yield of a holding in percent: an indexed inflation-linked bond's own real yield, or the
+ * yield to worst deflated by the latest inflation rate of its region (or the global region)
+ */
+export function calculateRealYield(
+  asset: FixedIncomeAsset,
+  marketData: RegionalMarketData[] = [],
+  settlement: Date = new Date()
+): number {
+  const linked = analyzeInflationLinked(asset, null, settlement);
+  if (linked) return linked.realYield;
+
+  const inflation = (getLatestMarketData(marketData, asset.region, settlement) ||
+    getLatestMarketData(marketData, 'global', settlement))?.inflation_rate ?? DEFAULT_PROJECTED_INFLATION;
+  const nominal = solveYieldToWorst(asset, getMarketValue(asset) + calculateAccruedInterest(asset, settlement), settlement);
+  return ((1 + nominal.bondEquivalent / 100) / (1 + inflation / 100) - 1) * 100;
+}
+
+/**
+ * Market-value-weighted real yield of a portfolio
+ */
+export function calculatePortfolioRealYield(
+  assets: FixedIncomeAsset[],
+  marketData: RegionalMarketData[] = []
+): number {
+  return calculateWeightedAverage(assets, asset => calculateRealYield(asset, marketData));
+}
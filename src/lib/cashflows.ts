@@ -0,0 +1,235 @@
+import { addYears, isValid, parseISO } from 'date-fns';
+import { DayCountConvention, FixedIncomeAsset, InterestFrequency } from '@/types';
+import { CouponGrid, couponPeriodsBetween, getDayCount, rollDate, yearFraction } from '@/lib/daycount';
+import { getIndexRatio } from '@/lib/inflation';
+
+export type CashFlowType = 'coupon' | 'principal';
+
+/**
+ * Where the irregular period of a schedule sits, and whether it is
+ * paid on its own (short) or merged into the adjacent regular period (long)
+ */
+export type StubType = 'shortFirst' | 'longFirst' | 'shortLast' | 'longLast';
+
+export interface CashFlow {
+  date: Date;
+  type: CashFlowType;
+  amount: number;
+  accrualStart: Date;
+  accrualEnd: Date;
+}
+
+export interface CashFlowScheduleOptions {
+  // Only include cash flows paid strictly after this date
+  from?: Date;
+  // Only include cash flows paid on or before this date (required horizon for perpetuals)
+  to?: Date;
+  stub?: StubType;
+  // Keep month-end anchors on month end when rolling (e.g. 28 Feb -> 31 Aug)
+  endOfMonth?: boolean;
+}
+
+/**
+ * Number of coupon payments per year for each payment frequency
+ * Irregular and at-maturity instruments are compounded annually
+ */
+export const PAYMENTS_PER_YEAR: Record<InterestFrequency, number> = {
+  monthly: 12,
+  quarterly: 4,
+  semiannual: 2,
+  annual: 1,
+  atMaturity: 1,
+  irregular: 1
+};
+
+// Horizon used to cut off the coupon stream of perpetual bonds when no end date is given
+const PERPETUAL_HORIZON_YEARS = 30;
+
+/**
+ * Build the coupon grid and payment dates of a coupon-bearing asset.
+ * First stubs roll backward from maturity; last stubs roll forward from the purchase date.
+ */
+export function getCouponDates(
+  asset: FixedIncomeAsset,
+  options: CashFlowScheduleOptions = {}
+): { grid: CouponGrid; dates: Date[] } | null {
+  const purchaseDate = parseISO(asset.purchase_date);
+  if (!isValid(purchaseDate)) return null;
+
+  const periodsPerYear = PAYMENTS_PER_YEAR[asset.interest_payment_frequency];
+  const monthsPerPeriod = 12 / periodsPerYear;
+  const endOfMonth = options.endOfMonth ?? true;
+  const stub = options.stub ?? 'shortFirst';
+  const maturityDate = asset.maturity_date ? parseISO(asset.maturity_date) : null;
+
+  // Perpetuals have no maturity to roll back from, so the grid starts at purchase
+  if (!maturityDate || !isValid(maturityDate) || asset.type === 'perpetualBond') {
+    const grid = { anchor: purchaseDate, monthsPerPeriod, endOfMonth };
+    const horizon = options.to ?? addYears(options.from ?? new Date(), PERPETUAL_HORIZON_YEARS);
+    const dates: Date[] = [];
+    for (let k = 1; rollDate(grid, k) <= horizon; k++) {
+      dates.push(rollDate(grid, k));
+    }
+    return { grid, dates };
+  }
+
+  if (maturityDate <= purchaseDate) return null;
+
+  if (stub === 'shortFirst' || stub === 'longFirst') {
+    const grid = { anchor: maturityDate, monthsPerPeriod, endOfMonth };
+    const dates: Date[] = [];
+    let k = 0;
+    while (rollDate(grid, -k) > purchaseDate) {
+      dates.unshift(rollDate(grid, -k));
+      k++;
+    }
+
+    // Merge an irregular first period into the following one
+    const hasStub = rollDate(grid, -k).getTime() !== purchaseDate.getTime();
+    if (stub === 'longFirst' && hasStub && dates.length > 1) {
+      dates.shift();
+    }
+    return { grid, dates };
+  }
+
+  const grid = { anchor: purchaseDate, monthsPerPeriod, endOfMonth };
+  const dates: Date[] = [];
+  let k = 1;
+  while (rollDate(grid, k) < maturityDate) {
+    dates.push(rollDate(grid, k));
+    k++;
+  }
+  dates.push(maturityDate);
+
+  // Merge an irregular last period into the preceding one
+  const hasStub = rollDate(grid, k).getTime() !== maturityDate.getTime();
+  if (stub === 'longLast' && hasStub && dates.length > 1) {
+    dates.splice(dates.length - 2, 1);
+  }
+  return { grid, dates };
+}
+
+/**
+ * Coupon paid for an accrual period: regular periods pay the fixed periodic coupon,
+ * stub periods are pro-rated with the asset's day-count convention
+ */
+function getCouponAmount(
+  grid: CouponGrid,
+  accrualStart: Date,
+  accrualEnd: Date,
+  regularCoupon: number,
+  annualCoupon: number,
+  dayCount: DayCountConvention
+): number {
+  const periods = couponPeriodsBetween(grid, accrualStart, accrualEnd);
+  if (Math.abs(periods - 1) < 1e-9) return regularCoupon;
+
+  return dayCount === 'ACT/ACT ICMA'
+    ? regularCoupon * periods
+    : annualCoupon * yearFraction(accrualStart, accrualEnd, dayCount);
+}
+
+/**
+ * Generate the dated coupon and principal cash flows of an asset over its life.
+ * Accrual starts at the purchase date; stub coupons are pro-rated against the regular period.
+ * An indexed inflation-linked bond pays each flow on its face value times the index ratio of the
+ * payment date, with the principal floored at par where the convention guarantees it.
+ */
+export function generateCashFlowSchedule(
+  asset: FixedIncomeAsset,
+  options: CashFlowScheduleOptions = {}
+): CashFlow[] {
+  const purchaseDate = parseISO(asset.purchase_date);
+  const maturityDate = asset.maturity_date ? parseISO(asset.maturity_date) : null;
+  if (!isValid(purchaseDate)) return [];
+
+  const isPerpetual = asset.type === 'perpetualBond' || !maturityDate || !isValid(maturityDate);
+  const annualCoupon = asset.face_value * (asset.interest_rate / 100);
+  const flows: CashFlow[] = [];
+
+  const dayCount = getDayCount(asset);
+
+  if (!isPerpetual && (asset.interest_rate === 0 || asset.interest_payment_frequency === 'atMaturity')) {
+    if (maturityDate! <= purchaseDate) return [];
+
+    // Interest, if any, accrues over the whole term and is paid with the principal
+    if (asset.interest_rate !== 0) {
+      flows.push({
+        date: maturityDate!,
+        type: 'coupon',
+        amount: annualCoupon * yearFraction(purchaseDate, maturityDate!, dayCount),
+        accrualStart: purchaseDate,
+        accrualEnd: maturityDate!
+      });
+    }
+  } else {
+    const couponDates = getCouponDates(asset, options);
+    if (!couponDates) return [];
+
+    const { grid, dates } = couponDates;
+    const regularCoupon = annualCoupon / PAYMENTS_PER_YEAR[asset.interest_payment_frequency];
+
+    dates.forEach((date, i) => {
+      const accrualStart = i === 0 ? purchaseDate : dates[i - 1];
+      flows.push({
+        date,
+        type: 'coupon',
+        amount: getCouponAmount(grid, accrualStart, date, regularCoupon, annualCoupon, dayCount),
+        accrualStart,
+        accrualEnd: date
+      });
+    });
+  }
+
+  if (!isPerpetual) {
+    flows.push({
+      date: maturityDate!,
+      type: 'principal',
+      amount: asset.face_value,
+      accrualStart: purchaseDate,
+      accrualEnd: maturityDate!
+    });
+  }
+
+  if (asset.indexation) {
+    const { indexation } = asset;
+    flows.forEach(flow => {
+      const ratio = getIndexRatio(indexation, flow.date);
+      flow.amount *= flow.type === 'principal' && indexation.deflation_floor ? Math.max(1, ratio) : ratio;
+    });
+  }
+
+  return flows.filter(flow =>
+    (!options.from || flow.date > options.from) &&
+    (!options.to || flow.date <= options.to) &&
+    flow.amount !== 0
+  );
+}
+
+/**
+ * Calculate the interest accrued on an asset since its last coupon date.
+ * Accrual is measured with the asset's day-count convention from the start of the current period,
+ * and an indexed inflation-linked bond accrues on its face value times the settlement index ratio.
+ */
+export function calculateAccruedInterest(asset: FixedIncomeAsset, settlement: Date = new Date()): number {
+  if (asset.interest_rate === 0) return 0;
+  if (asset.indexation) {
+    return calculateAccruedInterest({ ...asset, indexation: undefined }, settlement) * getIndexRatio(asset.indexation, settlement);
+  }
+
+  const currentPeriod = generateCashFlowSchedule(asset, { from: settlement })
+    .find(flow => flow.type === 'coupon' && flow.accrualStart <= settlement);
+  if (!currentPeriod) return 0;
+
+  const dayCount = getDayCount(asset);
+  const annualCoupon = asset.face_value * (asset.interest_rate / 100);
+
+  if (asset.interest_payment_frequency === 'atMaturity' || dayCount !== 'ACT/ACT ICMA') {
+    return annualCoupon * yearFraction(currentPeriod.accrualStart, settlement, dayCount);
+  }
+
+  // ICMA accrues the periodic coupon in proportion to the elapsed part of the period
+  const { grid } = getCouponDates(asset, { from: settlement })!;
+  return annualCoupon / PAYMENTS_PER_YEAR[asset.interest_payment_frequency] *
+    couponPeriodsBetween(grid, currentPeriod.accrualStart, settlement);
+}
@@ -0,0 +1,176 @@
+import { FixedIncomeAsset, IssuerType, SectorCode, SECTORS, User } from '@/types';
+import { getMarketValue } from '@/lib/utils';
+
+/**
+ * Largest share of the portfolio any one issuer, issuer group or sector may hold
+ */
+export interface ConcentrationLimits {
+  // Weights as fractions of the portfolio (e.g. 0.1)
+  maxIssuerWeight: number;
+  maxParentWeight: number;
+  maxSectorWeight: number;
+  // Issuer types whose names and sectors are not limited, such as government debt
+  exemptIssuerTypes: IssuerType[];
+}
+
+export const CONCENTRATION_LIMITS_BY_PROFILE: Record<User['risk_tolerance'], ConcentrationLimits> = {
+  conservative: { maxIssuerWeight: 0.1, maxParentWeight: 0.15, maxSectorWeight: 0.3, exemptIssuerTypes: ['government'] },
+  moderate: { maxIssuerWeight: 0.15, maxParentWeight: 0.2, maxSectorWeight: 0.4, exemptIssuerTypes: ['government'] },
+  aggressive: { maxIssuerWeight: 0.25, maxParentWeight: 0.3, maxSectorWeight: 0.5, exemptIssuerTypes: ['government'] }
+};
+
+// Sector assumed for holdings without one, by issuer type
+const DEFAULT_SECTORS: Record<IssuerType, SectorCode> = {
+  government: 'sovereign',
+  municipal: 'municipal',
+  financial: 'financials',
+  corporate: 'other',
+  other: 'other'
+};
+
+export type ConcentrationLevel = 'issuer' | 'parent' | 'sector';
+
+/**
+ * Holdings sharing an issuer, parent or sector, and their combined market value
+ */
+export interface ExposureGroup {
+  key: string;
+  name: string;
+  value: number;
+  // Share of the portfolio, as a fraction
+  weight: number;
+  assets: FixedIncomeAsset[];
+  // Limit that applies to the group, or null when all of its holdings are exempt
+  limit: number | null;
+}
+
+export interface ConcentrationBreach {
+  level: ConcentrationLevel;
+  group: ExposureGroup;
+  // Value above the limit, in the currency the holdings are stated in
+  excess: number;
+}
+
+export interface ConcentrationReport {
+  totalValue: number;
+  // Largest exposure first
+  issuers: ExposureGroup[];
+  parents: ExposureGroup[];
+  sectors: ExposureGroup[];
+  // Herfindahl-Hirschman indices of the weights, from 10000 for a single name down towards 0
+  issuerHhi: number;
+  parentHhi: number;
+  sectorHhi: number;
+  // Number of equally weighted issuers with the same index
+  effectiveIssuers: number;
+  breaches: ConcentrationBreach[];
+}
+
+/**
+ * Issuer of an asset, matched case-insensitively; an asset without one is its own issuer
+ */
+export function getIssuer(asset: FixedIncomeAsset): string {
+  return asset.issuer?.trim() || asset.name;
+}
+
+/**
+ * Ultimate parent of an asset's issuer, or the issuer itself when no parent is given
+ */
+export function getIssuerParent(asset: FixedIncomeAsset): string {
+  return asset.issuer_parent?.trim() || getIssuer(asset);
+}
+
+/**
+ * Sector of an asset, assumed from its issuer type when not given
+ */
+export function getSector(asset: FixedIncomeAsset): SectorCode {
+  return asset.sector || DEFAULT_SECTORS[asset.issuer_type] || 'other';
+}
+
+export function getSectorName(sector: SectorCode): string {
+  return SECTORS.find(item => item.code === sector)?.name || sector;
+}
+
+/**
+ * Herfindahl-Hirschman index of a set of exposure groups: the sum of squared percentage weights
+ */
+export function calculateHhi(groups: ExposureGroup[]): number {
+  return groups.reduce((sum, group) => sum + Math.pow(group.weight * 100, 2), 0);
+}
+
+/**
+ * Group holdings by a key, keeping the first spelling of each key as its name
+ */
+function groupExposures(
+  assets: FixedIncomeAsset[],
+  getName: (asset: FixedIncomeAsset) => string,
+  totalValue: number,
+  limit: number,
+  exemptIssuerTypes: IssuerType[]
+): ExposureGroup[] {
+  const groups = new Map<string, ExposureGroup>();
+  assets.forEach(asset => {
+    const name = getName(asset);
+    const key = name.toLowerCase();
+    const group = groups.get(key) || { key, name, value: 0, weight: 0, assets: [], limit: null };
+    group.value += getMarketValue(asset);
+    group.assets.push(asset);
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map(group => ({
+      ...group,
+      weight: totalValue > 0 ? group.value / totalValue : 0,
+      limit: group.assets.every(asset => exemptIssuerTypes.includes(asset.issuer_type)) ? null : limit
+    }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Exposure by issuer, issuer parent and sector, the concentration indices of each, and the groups
+ * above their limits. Holdings should already be stated in one currency.
+ */
+export function analyzeConcentration(
+  assets: FixedIncomeAsset[],
+  limits: ConcentrationLimits = CONCENTRATION_LIMITS_BY_PROFILE.moderate
+): ConcentrationReport {
+  const totalValue = assets.reduce((sum, asset) => sum + getMarketValue(asset), 0);
+
+  // A parent named on any holding of an issuer applies to all of them
+  const issuerParents = new Map<string, string>();
+  assets.forEach(asset => {
+    const issuer = getIssuer(asset).toLowerCase();
+    if (asset.issuer_parent?.trim() && !issuerParents.has(issuer)) issuerParents.set(issuer, asset.issuer_parent.trim());
+  });
+  const getParent = (asset: FixedIncomeAsset) => issuerParents.get(getIssuer(asset).toLowerCase()) || getIssuer(asset);
+
+  const issuers = groupExposures(assets, getIssuer, totalValue, limits.maxIssuerWeight, limits.exemptIssuerTypes);
+  const parents = groupExposures(assets, getParent, totalValue, limits.maxParentWeight, limits.exemptIssuerTypes);
+  const sectors = groupExposures(assets, asset => getSectorName(getSector(asset)), totalValue, limits.maxSectorWeight, limits.exemptIssuerTypes);
+
+  // A parent with a single issuer repeats the issuer's breach, so only groups of several are reported
+  const breaches: ConcentrationBreach[] = [
+    ...issuers.map(group => ({ level: 'issuer' as const, group })),
+    ...parents
+      .filter(group => new Set(group.assets.map(asset => getIssuer(asset).toLowerCase())).size > 1)
+      .map(group => ({ level: 'parent' as const, group })),
+    ...sectors.map(group => ({ level: 'sector' as const, group }))
+  ]
+    .filter(({ group }) => group.limit !== null && group.weight > group.limit + 1e-9)
+    .map(({ level, group }) => ({ level, group, excess: group.value - group.limit! * totalValue }));
+
+  const issuerHhi = calculateHhi(issuers);
+
+  return {
+    totalValue,
+    issuers,
+    parents,
+    sectors,
+    issuerHhi,
+    parentHhi: calculateHhi(parents),
+    sectorHhi: calculateHhi(sectors),
+    effectiveIssuers: issuerHhi > 0 ? 10000 / issuerHhi : 0,
+    breaches
+  };
+}
@@ -0,0 +1,259 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { AssetType, FixedIncomeAsset, IssuerType } from '@/types';
+import { getMarketValue } from '@/lib/utils';
+
+/**
+ * Long-term ratings on a common scale in S&P and Fitch notation, from best to worst
+ */
+export const CREDIT_RATINGS = [
+  'AAA', 'AA+', 'AA', 'AA-', 'A+', 'A', 'A-',
+  'BBB+', 'BBB', 'BBB-', 'BB+', 'BB', 'BB-',
+  'B+', 'B', 'B-', 'CCC+', 'CCC', 'CCC-', 'CC', 'C', 'D'
+] as const;
+
+export type CreditRating = typeof CREDIT_RATINGS[number];
+
+/**
+ * Broad rating grade, ignoring notches; CCC and below share one grade
+ */
+export type RatingGrade = 'AAA' | 'AA' | 'A' | 'BBB' | 'BB' | 'B' | 'CCC';
+
+export const RATING_GRADES: RatingGrade[] = ['AAA', 'AA', 'A', 'BBB', 'BB', 'B', 'CCC'];
+
+/**
+ * Default and recovery assumptions behind the expected loss
+ */
+export interface CreditAssumptions {
+  // Annual probability of default by rating, in percent
+  defaultProbabilities: Record<CreditRating, number>;
+  // Scales the default probability of each issuer type, e.g. for lower municipal default rates
+  issuerMultipliers: Record<IssuerType, number>;
+  // Share of face value recovered on default by issuer type, in percent
+  recoveryRates: Record<IssuerType, number>;
+  // Recovery on subordinated and perpetual debt of any issuer, in percent
+  subordinatedRecoveryRate: number;
+}
+
+// Long-run average annual default rates by rating, in percent
+export const DEFAULT_CREDIT_ASSUMPTIONS: CreditAssumptions = {
+  defaultProbabilities: {
+    'AAA': 0.01, 'AA+': 0.02, 'AA': 0.02, 'AA-': 0.03, 'A+': 0.05, 'A': 0.06, 'A-': 0.08,
+    'BBB+': 0.12, 'BBB': 0.17, 'BBB-': 0.28, 'BB+': 0.45, 'BB': 0.7, 'BB-': 1.2,
+    'B+': 2.0, 'B': 3.5, 'B-': 6.0, 'CCC+': 12, 'CCC': 20, 'CCC-': 27, 'CC': 35, 'C': 50, 'D': 100
+  },
+  issuerMultipliers: { government: 0.5, municipal: 0.3, financial: 1, corporate: 1, other: 1.2 },
+  recoveryRates: { government: 55, municipal: 60, financial: 35, corporate: 40, other: 30 },
+  subordinatedRecoveryRate: 15
+};
+
+// Rating assumed for unrated holdings of each issuer type
+export const UNRATED_RATINGS: Record<IssuerType, CreditRating> = {
+  government: 'AA',
+  municipal: 'A',
+  financial: 'BBB',
+  corporate: 'BBB',
+  other: 'BB'
+};
+
+// Types that rank below senior debt when the issuer defaults
+const SUBORDINATED_TYPES: AssetType[] = ['subordinatedBond', 'perpetualBond'];
+
+// Horizon over which the lifetime loss of a perpetual is measured, in years
+const PERPETUAL_HORIZON_YEARS = 30;
+
+// Moody's letter grades and their equivalents
+const MOODYS_GRADES: Record<string, string> = {
+  Aa: 'AA', A: 'A', Baa: 'BBB', Ba: 'BB', B: 'B', Caa: 'CCC'
+};
+
+// Numeric Moody's modifiers and DBRS high/low, as S&P notch signs
+const MOODYS_NOTCHES: Record<string, string> = { '1': '+', '2': '', '3': '-' };
+const DBRS_NOTCHES: Record<string, string> = { high: '+', h: '+', low: '-', l: '-' };
+
+/**
+ * Look a rating up on the common scale, or null if it is not on it
+ */
+function toCreditRating(rating: string): CreditRating | null {
+  return (CREDIT_RATINGS as readonly string[]).includes(rating) ? rating as CreditRating : null;
+}
+
+/**
+ * Normalize a long-term rating in S&P, Fitch, Moody's or DBRS notation to the common scale.
+ * Outlooks and other suffixes after the rating are ignored; restricted and selective defaults
+ * count as default. Returns null when the rating is missing or not recognized.
+ */
+export function normalizeRating(rating?: string): CreditRating | null {
+  const trimmed = rating?.trim();
+  if (!trimmed) return null;
+
+  // Moody's: Aaa, Aa1 to Caa3, Ca and C
+  if (/^Aaa(?![A-Za-z0-9])/.test(trimmed)) return 'AAA';
+  if (/^Ca(?![A-Za-z0-9])/.test(trimmed)) return 'CC';
+  const moodys = trimmed.match(/^(Aa|Baa|Ba|Caa|A|B)([123])?(?![A-Za-z0-9])/);
+  if (moodys && (moodys[2] || moodys[1].length > 1)) {
+    return toCreditRating(MOODYS_GRADES[moodys[1]] + MOODYS_NOTCHES[moodys[2] || '2']);
+  }
+
+  // DBRS: AA (high), A (low), BBBH and the like
+  const dbrs = trimmed.match(/^(AA|A|BBB|BB|B|CCC)\s*(?:\(\s*(high|low)\s*\)|\s(high|low)|(H|L))(?![A-Za-z0-9])/i);
+  if (dbrs && dbrs[1] === dbrs[1].toUpperCase()) {
+    const modifier = (dbrs[2] || dbrs[3] || dbrs[4]).toLowerCase();
+    return toCreditRating(dbrs[1] + DBRS_NOTCHES[modifier]);
+  }
+
+  // S&P and Fitch, including selective (SD) and restricted (RD) default
+  const standard = trimmed.match(/^(AAA|AA|A|BBB|BB|B|CCC|CC|C|SD|RD|D)([+-])?(?![A-Za-z0-9])/);
+  if (standard) {
+    if (['SD', 'RD', 'D'].includes(standard[1])) return 'D';
+    return toCreditRating(standard[1] + (standard[2] || ''));
+  }
+
+  return null;
+}
+
+/**
+ * Position of a rating on the common scale, from 1 for AAA; lower is better.
+ * Returns null when the rating is missing or not recognized.
+ */
+export function getRatingNotch(rating?: string): number | null {
+  const normalized = normalizeRating(rating);
+  return normalized ? CREDIT_RATINGS.indexOf(normalized) + 1 : null;
+}
+
+/**
+ * Rating grade of a rating in any agency's notation, or null when it is missing or not recognized
+ */
+export function getRatingGrade(rating?: string): RatingGrade | null {
+  const normalized = normalizeRating(rating);
+  if (!normalized) return null;
+  const letters = normalized.replace(/[+-]$/, '');
+  return RATING_GRADES.includes(letters as RatingGrade) ? letters as RatingGrade : 'CCC';
+}
+
+/**
+ * Normalized rating of an asset, or the rating assumed for its issuer type when it is unrated
+ */
+export function getAssumedRating(asset: FixedIncomeAsset): CreditRating {
+  return normalizeRating(asset.rating) || UNRATED_RATINGS[asset.issuer_type] || UNRATED_RATINGS.other;
+}
+
+/**
+ * Credit risk of a single holding
+ */
+export interface AssetCreditRisk {
+  asset: FixedIncomeAsset;
+  // Normalized rating, or null when the asset is unrated
+  rating: CreditRating | null;
+  // Rating the loss is estimated at, which is assumed from the issuer type when unrated
+  assumedRating: CreditRating;
+  // Annual and remaining-life probabilities of default, in percent
+  defaultProbability: number;
+  cumulativeDefaultProbability: number;
+  // Recovery rate on default, in percent
+  recoveryRate: number;
+  // Clean market value at risk
+  exposure: number;
+  // Loss expected over the next year and over the remaining life, undiscounted
+  expectedLoss: number;
+  lifetimeExpectedLoss: number;
+}
+
+/**
+ * Credit risk of a portfolio, in the currency its holdings are stated in
+ */
+export interface PortfolioCreditRisk {
+  exposure: number;
+  expectedLoss: number;
+  lifetimeExpectedLoss: number;
+  // Annual expected loss as a share of the exposure, in basis points
+  expectedLossBps: number;
+  // Rating on the common scale closest to the value-weighted average notch
+  averageRating: CreditRating | null;
+  // Market value by rating grade; unrated holdings are kept apart
+  distribution: Record<RatingGrade, number>;
+  unratedValue: number;
+  assets: AssetCreditRisk[];
+}
+
+/**
+ * Default probability, recovery and expected loss of an asset. The annual default probability
+ * is looked up by rating and scaled for the issuer type, and compounded over the years to
+ * maturity for the lifetime loss.
+ */
+export function assessCreditRisk(
+  asset: FixedIncomeAsset,
+  assumptions: CreditAssumptions = DEFAULT_CREDIT_ASSUMPTIONS,
+  today: Date = new Date()
+): AssetCreditRisk {
+  const rating = normalizeRating(asset.rating);
+  const assumedRating = rating || getAssumedRating(asset);
+  const issuerType = assumptions.recoveryRates[asset.issuer_type] !== undefined ? asset.issuer_type : 'other';
+
+  const defaultProbability = Math.min(
+    100,
+    assumptions.defaultProbabilities[assumedRating] * (assumptions.issuerMultipliers[issuerType] ?? 1)
+  );
+  const recoveryRate = SUBORDINATED_TYPES.includes(asset.type)
+    ? assumptions.subordinatedRecoveryRate
+    : assumptions.recoveryRates[issuerType];
+
+  const isPerpetual = asset.type === 'perpetualBond' || !asset.maturity_date;
+  const years = isPerpetual
+    ? PERPETUAL_HORIZON_YEARS
+    : Math.max(0, differenceInCalendarDays(parseISO(asset.maturity_date), today) / 365);
+  const cumulativeDefaultProbability = (1 - Math.pow(1 - defaultProbability / 100, years)) * 100;
+
+  const exposure = years > 0 ? getMarketValue(asset) : 0;
+  const lossGivenDefault = exposure * (1 - recoveryRate / 100);
+
+  return {
+    asset,
+    rating,
+    assumedRating,
+    defaultProbability,
+    cumulativeDefaultProbability,
+    recoveryRate,
+    exposure,
+    expectedLoss: lossGivenDefault * defaultProbability / 100 * Math.min(1, years),
+    lifetimeExpectedLoss: lossGivenDefault * cumulativeDefaultProbability / 100
+  };
+}
+
+/**
+ * Expected loss and rating distribution of a portfolio. Holdings should already be stated in
+ * one currency.
+ */
+export function calculatePortfolioCreditRisk(
+  assets: FixedIncomeAsset[],
+  assumptions: CreditAssumptions = DEFAULT_CREDIT_ASSUMPTIONS,
+  today: Date = new Date()
+): PortfolioCreditRisk {
+  const distribution = RATING_GRADES
+    .reduce((dist, grade) => ({ ...dist, [grade]: 0 }), {} as Record<RatingGrade, number>);
+  const risks = (assets || []).map(asset => assessCreditRisk(asset, assumptions, today));
+
+  let unratedValue = 0;
+  let notchValue = 0;
+  risks.forEach(risk => {
+    if (risk.rating) {
+      distribution[getRatingGrade(risk.rating)!] += risk.exposure;
+    } else {
+      unratedValue += risk.exposure;
+    }
+    notchValue += (CREDIT_RATINGS.indexOf(risk.assumedRating) + 1) * risk.exposure;
+  });
+
+  const exposure = risks.reduce((sum, risk) => sum + risk.exposure, 0);
+  const expectedLoss = risks.reduce((sum, risk) => sum + risk.expectedLoss, 0);
+
+  return {
+    exposure,
+    expectedLoss,
+    lifetimeExpectedLoss: risks.reduce((sum, risk) => sum + risk.lifetimeExpectedLoss, 0),
+    expectedLossBps: exposure > 0 ? expectedLoss / exposure * 10000 : 0,
+    averageRating: exposure > 0 ? CREDIT_RATINGS[Math.round(notchValue / exposure) - 1] : null,
+    distribution,
+    unratedValue,
+    assets: risks
+  };
+}
@@ -0,0 +1,347 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { RegionalMarketData } from '@/types';
+
+/**
+ * How rates between curve points are obtained
+ */
+export type InterpolationMethod = 'linear' | 'logLinearDiscount' | 'monotoneCubic' | 'nelsonSiegelSvensson';
+
+export const INTERPOLATION_NAMES: Record<InterpolationMethod, string> = {
+  linear: 'Linear (zero rates)',
+  logLinearDiscount: 'Log-linear (discount factors)',
+  monotoneCubic: 'Monotone cubic',
+  nelsonSiegelSvensson: 'Nelson-Siegel-Svensson fit'
+};
+
+/**
+ * Zero rate, in percent compounded annually, at a maturity in years
+ */
+export interface CurvePoint {
+  years: number;
+  rate: number;
+}
+
+export interface NelsonSiegelSvenssonParams {
+  beta0: number;
+  beta1: number;
+  beta2: number;
+  beta3: number;
+  tau1: number;
+  tau2: number;
+  // Root mean square error of the fit against the curve points, in percent
+  rmse: number;
+}
+
+/**
+ * A maturity, either in years from the curve date or as a calendar date
+ */
+export type CurveTime = number | Date;
+
+export interface YieldCurve {
+  date: Date;
+  method: InterpolationMethod;
+  points: CurvePoint[];
+  // Zero rate in percent, compounded annually
+  zeroRate: (t: CurveTime) => number;
+  discountFactor: (t: CurveTime) => number;
+  // Forward rate between two maturities in percent, compounded annually
+  forwardRate: (start: CurveTime, end: CurveTime) => number;
+  // Fitted parameters, for Nelson-Siegel-Svensson curves
+  params?: NelsonSiegelSvenssonParams;
+}
+
+/**
+ * Length in years of a tenor label such as "3M", "1Y" or "10Y", or null if it is not one
+ */
+export function parseTenor(tenor: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([DWMY])$/i.exec(tenor.trim());
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  switch (match[2].toUpperCase()) {
+    case 'D': return value / 365;
+    case 'W': return value * 7 / 365;
+    case 'M': return value / 12;
+    default: return value;
+  }
+}
+
+/**
+ * Curve points sorted by maturity, ignoring tenors that cannot be parsed
+ */
+export function getCurvePoints(curve: RegionalMarketData['yield_curve']): CurvePoint[] {
+  return Object.entries(curve || {})
+    .map(([tenor, rate]) => ({ years: parseTenor(tenor), rate }))
+    .filter((point): point is CurvePoint => point.years !== null && point.years > 0 && Number.isFinite(point.rate))
+    .sort((a, b) => a.years - b.years);
+}
+
+/**
+ * Years from the curve date to a maturity, on an ACT/365F basis
+ */
+export function getCurveYears(curveDate: Date, t: CurveTime): number {
+  return typeof t === 'number' ? t : differenceInCalendarDays(t, curveDate) / 365;
+}
+
+// Rates are interpolated in percent; discounting uses the continuously compounded equivalent
+const toContinuous = (rate: number) => Math.log(1 + rate / 100);
+const toAnnual = (continuous: number) => (Math.exp(continuous) - 1) * 100;
+
+/**
+ * Linear interpolation between points, held flat beyond the first and last
+ */
+function interpolateLinear(points: CurvePoint[], t: number): number {
+  if (t <= points[0].years) return points[0].rate;
+  for (let k = 1; k < points.length; k++) {
+    if (t <= points[k].years) {
+      const previous = points[k - 1];
+      const weight = (t - previous.years) / (points[k].years - previous.years);
+      return previous.rate + weight * (points[k].rate - previous.rate);
+    }
+  }
+  return points[points.length - 1].rate;
+}
+
+/**
+ * Interpolation of the log discount factor, i.e. piecewise flat forward rates. Before the first
+ * point the first zero rate applies; beyond the last the final forward rate is extended.
+ */
+function createLogLinearDiscount(points: CurvePoint[]): (t: number) => number {
+  const nodes = [{ years: 0, logDiscount: 0 }, ...points.map(point => ({
+    years: point.years,
+    logDiscount: -point.years * toContinuous(point.rate)
+  }))];
+
+  return t => {
+    if (t <= 0) return points[0].rate;
+
+    let k = 1;
+    while (k < nodes.length - 1 && t > nodes[k].years) k++;
+    const previous = nodes[k - 1];
+    const forward = (previous.logDiscount - nodes[k].logDiscount) / (nodes[k].years - previous.years);
+    const logDiscount = previous.logDiscount - forward * (t - previous.years);
+    return toAnnual(-logDiscount / t);
+  };
+}
+
+/**
+ * Monotone piecewise cubic (Fritsch-Carlson) through the points, so the curve never
+ * overshoots between them; held flat beyond the first and last
+ */
+function createMonotoneCubic(points: CurvePoint[]): (t: number) => number {
+  const n = points.length;
+  if (n < 3) return t => interpolateLinear(points, t);
+
+  const x = points.map(point => point.years);
+  const y = points.map(point => point.rate);
+  const h = x.slice(1).map((value, k) => value - x[k]);
+  const delta = h.map((width, k) => (y[k + 1] - y[k]) / width);
+
+  const slopes = new Array(n).fill(0);
+  slopes[0] = delta[0];
+  slopes[n - 1] = delta[n - 2];
+  for (let k = 1; k < n - 1; k++) {
+    slopes[k] = delta[k - 1] * delta[k] <= 0 ? 0 : (delta[k - 1] + delta[k]) / 2;
+  }
+
+  // Limit the slopes so each segment stays monotone
+  delta.forEach((d, k) => {
+    if (d === 0) {
+      slopes[k] = 0;
+      slopes[k + 1] = 0;
+      return;
+    }
+    const a = slopes[k] / d;
+    const b = slopes[k + 1] / d;
+    const norm = a * a + b * b;
+    if (norm > 9) {
+      const scale = 3 / Math.sqrt(norm);
+      slopes[k] = scale * a * d;
+      slopes[k + 1] = scale * b * d;
+    }
+  });
+
+  return t => {
+    if (t <= x[0]) return y[0];
+    if (t >= x[n - 1]) return y[n - 1];
+
+    let k = 0;
+    while (t > x[k + 1]) k++;
+    const s = (t - x[k]) / h[k];
+    const s2 = s * s;
+    const s3 = s2 * s;
+    return (2 * s3 - 3 * s2 + 1) * y[k] +
+      (s3 - 2 * s2 + s) * h[k] * slopes[k] +
+      (-2 * s3 + 3 * s2) * y[k + 1] +
+      (s3 - s2) * h[k] * slopes[k + 1];
+  };
+}
+
+/**
+ * Loadings of the four Nelson-Siegel-Svensson factors at a maturity
+ */
+function getNssLoadings(t: number, tau1: number, tau2: number): number[] {
+  const slope = (x: number) => (x < 1e-8 ? 1 - x / 2 : (1 - Math.exp(-x)) / x);
+  const x1 = t / tau1;
+  const x2 = t / tau2;
+  return [1, slope(x1), slope(x1) - Math.exp(-x1), slope(x2) - Math.exp(-x2)];
+}
+
+/**
+ * Zero rate of a Nelson-Siegel-Svensson curve at a maturity, in percent
+ */
+export function getNelsonSiegelSvenssonRate(params: NelsonSiegelSvenssonParams, t: number): number {
+  const loadings = getNssLoadings(Math.max(0, t), params.tau1, params.tau2);
+  return params.beta0 * loadings[0] + params.beta1 * loadings[1] + params.beta2 * loadings[2] + params.beta3 * loadings[3];
+}
+
+/**
+ * Least squares betas for fixed decay parameters, solved from the normal equations with a
+ * small ridge so sparse or collinear points still give an answer
+ */
+function solveNssBetas(points: CurvePoint[], tau1: number, tau2: number, factorCount: number): number[] | null {
+  const a = Array.from({ length: factorCount }, () => new Array(factorCount).fill(0));
+  const b = new Array(factorCount).fill(0);
+  points.forEach(point => {
+    const loadings = getNssLoadings(point.years, tau1, tau2).slice(0, factorCount);
+    loadings.forEach((li, i) => {
+      b[i] += li * point.rate;
+      loadings.forEach((lj, j) => {
+        a[i][j] += li * lj;
+      });
+    });
+  });
+  a.forEach((row, i) => {
+    row[i] += 1e-8;
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < factorCount; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < factorCount; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-14) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < factorCount; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < factorCount; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const betas = new Array(factorCount).fill(0);
+  for (let row = factorCount - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < factorCount; k++) sum -= a[row][k] * betas[k];
+    betas[row] = sum / a[row][row];
+  }
+  return betas;
+}
+
+/**
+ * Fit a Nelson-Siegel-Svensson curve to zero rate points. The decay parameters are found by a
+ * grid search and the betas by least squares for each pair. With fewer than five points the
+ * second hump is dropped (plain Nelson-Siegel), and with a single point the curve is flat.
+ */
+export function fitNelsonSiegelSvensson(points: CurvePoint[]): NelsonSiegelSvenssonParams {
+  if (points.length === 0) {
+    return { beta0: 0, beta1: 0, beta2: 0, beta3: 0, tau1: 1, tau2: 1, rmse: 0 };
+  }
+  if (points.length === 1) {
+    return { beta0: points[0].rate, beta1: 0, beta2: 0, beta3: 0, tau1: 1, tau2: 1, rmse: 0 };
+  }
+
+  const factorCount = points.length >= 5 ? 4 : points.length >= 3 ? 3 : 2;
+  const grid = Array.from({ length: 25 }, (_, k) => 0.5 * Math.pow(60, k / 24));
+  let best: NelsonSiegelSvenssonParams | null = null;
+
+  for (const tau1 of grid) {
+    for (const tau2 of factorCount === 4 ? grid.filter(tau2 => tau2 > tau1) : [tau1]) {
+      const betas = solveNssBetas(points, tau1, tau2, factorCount);
+      if (!betas) continue;
+
+      const params = {
+        beta0: betas[0],
+        beta1: betas[1],
+        beta2: betas[2] ?? 0,
+        beta3: betas[3] ?? 0,
+        tau1,
+        tau2,
+        rmse: 0
+      };
+      const squaredError = points.reduce((sum, point) =>
+        sum + Math.pow(getNelsonSiegelSvenssonRate(params, point.years) - point.rate, 2), 0);
+      params.rmse = Math.sqrt(squaredError / points.length);
+
+      if (!best || params.rmse < best.rmse) best = params;
+    }
+  }
+
+  return best || { beta0: points[0].rate, beta1: 0, beta2: 0, beta3: 0, tau1: 1, tau2: 1, rmse: 0 };
+}
+
+/**
+ * Build a yield curve from zero rate points. Zero rates, discount factors and forward rates are
+ * available at any maturity, given in years from the curve date or as a calendar date.
+ */
+export function createYieldCurve(
+  points: CurvePoint[],
+  method: InterpolationMethod = 'monotoneCubic',
+  date: Date = new Date()
+): YieldCurve {
+  const sorted = points
+    .filter(point => point.years > 0 && Number.isFinite(point.rate))
+    .sort((a, b) => a.years - b.years);
+
+  let params: NelsonSiegelSvenssonParams | undefined;
+  let rateAt: (t: number) => number;
+  if (sorted.length === 0) {
+    rateAt = () => 0;
+  } else if (method === 'nelsonSiegelSvensson') {
+    const fitted = fitNelsonSiegelSvensson(sorted);
+    params = fitted;
+    rateAt = t => getNelsonSiegelSvenssonRate(fitted, t);
+  } else if (method === 'logLinearDiscount') {
+    rateAt = createLogLinearDiscount(sorted);
+  } else if (method === 'monotoneCubic') {
+    rateAt = createMonotoneCubic(sorted);
+  } else {
+    rateAt = t => interpolateLinear(sorted, t);
+  }
+
+  const zeroRate = (t: CurveTime) => rateAt(Math.max(0, getCurveYears(date, t)));
+  const discountFactor = (t: CurveTime) => {
+    const years = getCurveYears(date, t);
+    if (years <= 0) return 1;
+    return Math.exp(-years * toContinuous(rateAt(years)));
+  };
+
+  return {
+    date,
+    method,
+    points: sorted,
+    params,
+    zeroRate,
+    discountFactor,
+    forwardRate: (start, end) => {
+      const from = Math.max(0, getCurveYears(date, start));
+      const to = getCurveYears(date, end);
+      if (to <= from) return zeroRate(from);
+      const growth = discountFactor(from) / discountFactor(to);
+      return (Math.pow(growth, 1 / (to - from)) - 1) * 100;
+    }
+  };
+}
+
+/**
+ * Build a yield curve from a stored regional curve, dated on its observation date
+ */
+export function createCurveFromMarketData(
+  data: RegionalMarketData,
+  method: InterpolationMethod = 'monotoneCubic'
+): YieldCurve {
+  return createYieldCurve(getCurvePoints(data.yield_curve), method, parseISO(data.date));
+}
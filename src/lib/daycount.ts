@@ -0,0 +1,107 @@
+import { addMonths, differenceInCalendarDays, isLastDayOfMonth, lastDayOfMonth } from 'date-fns';
+import { AssetType, DayCountConvention, FixedIncomeAsset } from '@/types';
+
+/**
+ * Regular coupon grid of a schedule: dates are rolled from the anchor in steps of monthsPerPeriod
+ */
+export interface CouponGrid {
+  anchor: Date;
+  monthsPerPeriod: number;
+  endOfMonth: boolean;
+}
+
+// Money market instruments accrue on Actual/360; bonds default to Actual/Actual (ICMA)
+const MONEY_MARKET_TYPES: AssetType[] = ['CD', 'moneyMarket', 'treasuryBill'];
+
+/**
+ * Get the day-count convention of an asset, falling back to the market default for its type
+ */
+export function getDayCount(asset: FixedIncomeAsset): DayCountConvention {
+  if (asset.day_count) return asset.day_count;
+  return MONEY_MARKET_TYPES.includes(asset.type) ? 'ACT/360' : 'ACT/ACT ICMA';
+}
+
+/**
+ * Roll a date by a number of coupon periods, applying the end-of-month rule
+ */
+export function rollDate(grid: CouponGrid, periods: number): Date {
+  const rolled = addMonths(grid.anchor, periods * grid.monthsPerPeriod);
+  return grid.endOfMonth && isLastDayOfMonth(grid.anchor) ? lastDayOfMonth(rolled) : rolled;
+}
+
+/**
+ * Number of regular coupon periods between two dates, measured on the coupon grid.
+ * Partial periods are pro-rated by actual days within the notional period they fall in.
+ */
+export function couponPeriodsBetween(grid: CouponGrid, start: Date, end: Date): number {
+  if (end <= start) return 0;
+
+  // Find the notional coupon date on or before the start date
+  const approxPeriods = differenceInCalendarDays(start, grid.anchor) / (grid.monthsPerPeriod * 30.4375);
+  let k = Math.floor(approxPeriods) + 1;
+  while (rollDate(grid, k) > start) k--;
+  while (rollDate(grid, k + 1) <= start) k++;
+
+  let periods = 0;
+  let periodStart = rollDate(grid, k);
+  while (periodStart < end) {
+    const periodEnd = rollDate(grid, k + 1);
+    const overlapStart = start > periodStart ? start : periodStart;
+    const overlapEnd = end < periodEnd ? end : periodEnd;
+    periods += differenceInCalendarDays(overlapEnd, overlapStart) / differenceInCalendarDays(periodEnd, periodStart);
+    periodStart = periodEnd;
+    k++;
+  }
+
+  return periods;
+}
+
+/**
+ * Day count between two dates on a 360-day calendar.
+ * 30/360 only caps the end day when the start day is capped; 30E/360 caps both.
+ */
+function days360(start: Date, end: Date, european: boolean): number {
+  let d1 = start.getDate();
+  let d2 = end.getDate();
+
+  if (european) {
+    d1 = Math.min(d1, 30);
+    d2 = Math.min(d2, 30);
+  } else {
+    d1 = Math.min(d1, 30);
+    if (d1 === 30) d2 = Math.min(d2, 30);
+  }
+
+  return 360 * (end.getFullYear() - start.getFullYear()) +
+    30 * (end.getMonth() - start.getMonth()) +
+    (d2 - d1);
+}
+
+/**
+ * Calculate the year fraction between two dates under a day-count convention.
+ * ACT/ACT ICMA measures against the coupon grid; without one it uses annual periods ending at `end`.
+ */
+export function yearFraction(
+  start: Date,
+  end: Date,
+  convention: DayCountConvention,
+  grid?: CouponGrid
+): number {
+  if (end <= start) return 0;
+
+  switch (convention) {
+    case 'ACT/360':
+      return differenceInCalendarDays(end, start) / 360;
+    case 'ACT/365F':
+      return differenceInCalendarDays(end, start) / 365;
+    case '30/360':
+      return days360(start, end, false) / 360;
+    case '30E/360':
+      return days360(start, end, true) / 360;
+    case 'ACT/ACT ICMA':
+    default: {
+      const referenceGrid = grid ?? { anchor: end, monthsPerPeriod: 12, endOfMonth: true };
+      return couponPeriodsBetween(referenceGrid, start, end) * referenceGrid.monthsPerPeriod / 12;
+    }
+  }
+}
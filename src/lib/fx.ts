@@ -0,0 +1,174 @@
+import { parseISO } from 'date-fns';
+import { CurrencyRate, FixedIncomeAsset, LiquidityEvent } from '@/types';
+import { getMarketValue } from '@/lib/utils';
+
+/**
+ * Rate used to convert one currency into the reporting currency
+ */
+export interface AppliedRate {
+  // Units of the reporting currency per unit of the source currency
+  rate: number;
+  // Date of the oldest quote the rate was derived from
+  date: string;
+  // Whether the rate comes from the built-in approximate table rather than stored quotes
+  approximate: boolean;
+}
+
+export interface FxConverter {
+  reportingCurrency: string;
+  getRate: (from: string) => AppliedRate | null;
+  // Amount in the reporting currency, or 0 when no rate is available
+  convert: (amount: number, from: string) => number;
+  canConvert: (from: string) => boolean;
+  // Oldest rate date used to convert the given currencies, or null if none needed converting
+  getRateDate: (currencies: string[]) => string | null;
+  getMissingCurrencies: (currencies: string[]) => string[];
+}
+
+// Approximate EUR cross rates, used for any pair with no stored quote
+export const APPROXIMATE_CURRENCY_RATES: CurrencyRate[] = [
+  { base: 'EUR', quote: 'USD', rate: 1.04, date: '2025-01-02' },
+  { base: 'EUR', quote: 'GBP', rate: 0.83, date: '2025-01-02' },
+  { base: 'EUR', quote: 'CHF', rate: 0.94, date: '2025-01-02' },
+  { base: 'EUR', quote: 'JPY', rate: 163.0, date: '2025-01-02' },
+  { base: 'EUR', quote: 'SEK', rate: 11.5, date: '2025-01-02' },
+  { base: 'EUR', quote: 'NOK', rate: 11.8, date: '2025-01-02' },
+  { base: 'EUR', quote: 'DKK', rate: 7.46, date: '2025-01-02' },
+  { base: 'EUR', quote: 'PLN', rate: 4.27, date: '2025-01-02' },
+  { base: 'EUR', quote: 'CZK', rate: 25.2, date: '2025-01-02' }
+];
+
+interface Quote {
+  rate: number;
+  date: string;
+  approximate: boolean;
+}
+
+/**
+ * Latest quote on or before a date for every currency pair, in both directions
+ */
+function buildQuoteTable(rates: CurrencyRate[], asOf: Date, approximate: boolean): Map<string, Map<string, Quote>> {
+  const table = new Map<string, Map<string, Quote>>();
+  const set = (from: string, to: string, quote: Quote) => {
+    if (!table.has(from)) table.set(from, new Map());
+    const existing = table.get(from)!.get(to);
+    if (!existing || existing.date < quote.date) table.get(from)!.set(to, quote);
+  };
+
+  rates.forEach(({ base, quote, rate, date }) => {
+    if (!(rate > 0) || base === quote || parseISO(date) > asOf) return;
+    set(base, quote, { rate, date, approximate });
+    set(quote, base, { rate: 1 / rate, date, approximate });
+  });
+  return table;
+}
+
+/**
+ * Create a converter into a reporting currency from a table of stored rates. Each currency is
+ * converted with the latest quote on or before the as-of date, directly or through one
+ * intermediate currency; pairs with no stored quote fall back to the approximate table.
+ */
+export function createFxConverter(
+  rates: CurrencyRate[],
+  reportingCurrency: string,
+  asOf: Date = new Date(),
+  fallbackRates: CurrencyRate[] = APPROXIMATE_CURRENCY_RATES
+): FxConverter {
+  const tables = [buildQuoteTable(rates, asOf, false), buildQuoteTable(fallbackRates, asOf, true)];
+  const cache = new Map<string, AppliedRate | null>();
+
+  const findRate = (from: string): AppliedRate | null => {
+    for (const table of tables) {
+      const direct = table.get(from)?.get(reportingCurrency);
+      if (direct) return { ...direct };
+
+      // Cross through the intermediate with the most recent quotes
+      let best: AppliedRate | null = null;
+      for (const [via, first] of table.get(from) || []) {
+        const second = table.get(via)?.get(reportingCurrency);
+        if (!second) continue;
+        const date = first.date < second.date ? first.date : second.date;
+        if (!best || best.date < date) {
+          best = { rate: first.rate * second.rate, date, approximate: first.approximate || second.approximate };
+        }
+      }
+      if (best) return best;
+    }
+    return null;
+  };
+
+  const getRate = (from: string): AppliedRate | null => {
+    if (from === reportingCurrency) return null;
+    if (!cache.has(from)) cache.set(from, findRate(from));
+    return cache.get(from)!;
+  };
+
+  const canConvert = (from: string) => from === reportingCurrency || getRate(from) !== null;
+
+  return {
+    reportingCurrency,
+    getRate,
+    canConvert,
+    convert: (amount, from) => {
+      if (from === reportingCurrency) return amount;
+      const applied = getRate(from);
+      return applied ? amount * applied.rate : 0;
+    },
+    getRateDate: currencies => currencies
+      .map(currency => getRate(currency)?.date)
+      .filter((date): date is string => !!date)
+      .sort()[0] || null,
+    getMissingCurrencies: currencies => Array.from(new Set(currencies)).filter(currency => !canConvert(currency))
+  };
+}
+
+/**
+ * Market value of an asset in the reporting currency
+ */
+export function getReportingMarketValue(asset: FixedIncomeAsset, fx: FxConverter): number {
+  return fx.convert(getMarketValue(asset), asset.currency);
+}
+
+/**
+ * Copy of an asset with its amounts restated in the reporting currency, or null without a rate.
+ * Prices and yields are unchanged; only face value and total prices are scaled.
+ */
+export function convertAsset(asset: FixedIncomeAsset, fx: FxConverter): FixedIncomeAsset | null {
+  if (asset.currency === fx.reportingCurrency) return asset;
+  const applied = fx.getRate(asset.currency);
+  if (!applied) return null;
+
+  return {
+    ...asset,
+    currency: fx.reportingCurrency,
+    face_value: asset.face_value * applied.rate,
+    purchase_price: asset.purchase_price * applied.rate,
+    current_price: asset.current_price != null ? asset.current_price * applied.rate : asset.current_price,
+    model_price: asset.model_price != null ? asset.model_price * applied.rate : asset.model_price
+  };
+}
+
+/**
+ * Copy of a liquidity event with its amount in the reporting currency, or null without a rate
+ */
+export function convertEvent(event: LiquidityEvent, fx: FxConverter): LiquidityEvent | null {
+  if (event.currency === fx.reportingCurrency) return event;
+  const applied = fx.getRate(event.currency);
+  if (!applied) return null;
+
+  return { ...event, currency: fx.reportingCurrency, amount: event.amount * applied.rate };
+}
+
+/**
+ * Restate assets in the reporting currency, dropping any whose currency has no rate
+ */
+export function convertAssets(assets: FixedIncomeAsset[], fx: FxConverter): FixedIncomeAsset[] {
+  return assets.map(asset => convertAsset(asset, fx)).filter((asset): asset is FixedIncomeAsset => asset !== null);
+}
+
+/**
+ * Restate liquidity events in the reporting currency, dropping any whose currency has no rate
+ */
+export function convertEvents(events: LiquidityEvent[], fx: FxConverter): LiquidityEvent[] {
+  return events.map(event => convertEvent(event, fx)).filter((event): event is LiquidityEvent => event !== null);
+}
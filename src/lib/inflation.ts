@@ -0,0 +1,122 @@
+import { addMonths, differenceInCalendarMonths, format, getDate, getDaysInMonth, parseISO, startOfMonth } from 'date-fns';
+import { FixedIncomeAsset, InflationIndexation, RegionalMarketData } from '@/types';
+import { getLatestMarketData } from '@/lib/marketData';
+
+/**
+ * How a region's inflation-linked bonds are indexed
+ */
+export interface IndexationConvention {
+  lagMonths: number;
+  interpolated: boolean;
+  deflationFloor: boolean;
+}
+
+// Euro HICP ex-tobacco and US CPI linkers reference the CPI of three months earlier, interpolated
+// daily towards the following month, and repay at least par. Index-linked gilts issued since 2005
+// use the same three-month lag on RPI without a floor.
+export const INDEXATION_CONVENTIONS: Record<string, IndexationConvention> = {
+  eurozone: { lagMonths: 3, interpolated: true, deflationFloor: true },
+  uk: { lagMonths: 3, interpolated: true, deflationFloor: false },
+  us: { lagMonths: 3, interpolated: true, deflationFloor: true }
+};
+
+const DEFAULT_CONVENTION: IndexationConvention = { lagMonths: 3, interpolated: true, deflationFloor: false };
+
+// Annual inflation assumed beyond the last published month when a region has no stored rate, in percent
+export const DEFAULT_PROJECTED_INFLATION = 2;
+
+/**
+ * CPI levels by month for a region, merged from its stored market data on or before a date;
+ * later uploads replace earlier levels for the same month
+ */
+export function getCpiSeries(
+  marketData: RegionalMarketData[],
+  region: string,
+  asOf: Date = new Date()
+): Record<string, number> {
+  return marketData
+    .filter(data => data.region === region && data.cpi && parseISO(data.date) <= asOf)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .reduce((series, data) => ({ ...series, ...data.cpi }), {} as Record<string, number>);
+}
+
+/**
+ * CPI level of a month: the published level, or the latest published level before it grown at
+ * the projected inflation rate. Months before the series are deflated from its first level.
+ */
+function getCpiLevel(indexation: InflationIndexation, month: Date): number {
+  const key = format(month, 'yyyy-MM');
+  if (indexation.cpi[key] !== undefined) return indexation.cpi[key];
+
+  const months = Object.keys(indexation.cpi).sort();
+  const anchor = [...months].reverse().find(published => published < key) || months[0];
+  const monthsSince = differenceInCalendarMonths(month, parseISO(`${anchor}-01`));
+  return indexation.cpi[anchor] * Math.pow(1 + indexation.projected_inflation / 100, monthsSince / 12);
+}
+
+/**
+ * Reference CPI of a date: the CPI of the lagged month, interpolated by day of the month towards
+ * the next month's CPI when the convention is interpolated
+ */
+export function getReferenceCpi(indexation: InflationIndexation, date: Date): number {
+  const lagged = startOfMonth(addMonths(date, -indexation.lag_months));
+  const level = getCpiLevel(indexation, lagged);
+  if (!indexation.interpolated) return level;
+
+  const next = getCpiLevel(indexation, addMonths(lagged, 1));
+  return level + (getDate(date) - 1) / getDaysInMonth(date) * (next - level);
+}
+
+/**
+ * Index ratio of a date: the reference CPI over the base CPI, rounded to five decimals
+ */
+export function getIndexRatio(indexation: InflationIndexation, date: Date): number {
+  return Math.round(getReferenceCpi(indexation, date) / indexation.base_cpi * 1e5) / 1e5;
+}
+
+/**
+ * Indexation of an inflation-linked bond from the CPI series of its region, or of the global
+ * region when its own has none. Without a base CPI the principal is indexed from the purchase
+ * date. Returns null for other assets and when no CPI has been stored.
+ */
+export function getInflationIndexation(
+  asset: FixedIncomeAsset,
+  marketData: RegionalMarketData[],
+  asOf: Date = new Date()
+): InflationIndexation | null {
+  if (asset.type !== 'inflationLinkedBond') return null;
+
+  const region = Object.keys(getCpiSeries(marketData, asset.region, asOf)).length > 0 ? asset.region : 'global';
+  const cpi = getCpiSeries(marketData, region, asOf);
+  if (Object.keys(cpi).length === 0) return null;
+
+  const convention = INDEXATION_CONVENTIONS[asset.region] || DEFAULT_CONVENTION;
+  const indexation: InflationIndexation = {
+    base_cpi: 1,
+    lag_months: convention.lagMonths,
+    interpolated: convention.interpolated,
+    deflation_floor: convention.deflationFloor,
+    cpi,
+    projected_inflation: getLatestMarketData(marketData, region, asOf)?.inflation_rate ?? DEFAULT_PROJECTED_INFLATION
+  };
+  indexation.base_cpi = asset.base_cpi && asset.base_cpi > 0
+    ? asset.base_cpi
+    : getReferenceCpi(indexation, parseISO(asset.purchase_date));
+
+  return indexation;
+}
+
+/**
+ * Attach the CPI indexation to every inflation-linked bond, so its coupons and principal are paid
+ * on the indexed face value. Other assets, and linkers without a CPI series, are returned unchanged.
+ */
+export function indexAssets(
+  assets: FixedIncomeAsset[],
+  marketData: RegionalMarketData[],
+  asOf: Date = new Date()
+): FixedIncomeAsset[] {
+  return assets.map(asset => {
+    const indexation = getInflationIndexation(asset, marketData, asOf);
+    return indexation ? { ...asset, indexation } : asset;
+  });
+}
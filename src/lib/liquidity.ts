@@ -0,0 +1,78 @@
+import { addMonths, addYears, format, isValid, parseISO } from 'date-fns';
+import { LiquidityEvent, RecurrenceFrequency } from '@/types';
+
+export const RECURRENCE_NAMES: Record<RecurrenceFrequency, string> = {
+  none: 'One-off',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly'
+};
+
+const RECURRENCE_MONTHS: Record<Exclude<RecurrenceFrequency, 'none'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+// Open-ended recurring events are expanded this many years ahead
+export const DEFAULT_EXPANSION_YEARS = 10;
+
+export function isInflow(event: LiquidityEvent): boolean {
+  return event.direction === 'inflow';
+}
+
+/**
+ * Amount of an event signed from the investor's point of view: positive for inflows, negative for outflows
+ */
+export function getSignedAmount(event: LiquidityEvent): number {
+  return isInflow(event) ? event.amount : -event.amount;
+}
+
+/**
+ * Events that take cash out of the portfolio
+ */
+export function getOutflows(events: LiquidityEvent[]): LiquidityEvent[] {
+  return events.filter(event => !isInflow(event));
+}
+
+/**
+ * Replace each recurring event with its occurrences up to its end date or the horizon,
+ * whichever comes first. Occurrences keep the stored event's fields, get an id of their own
+ * and point back to the stored event through series_id.
+ */
+export function expandLiquidityEvents(
+  events: LiquidityEvent[],
+  until: Date = addYears(new Date(), DEFAULT_EXPANSION_YEARS)
+): LiquidityEvent[] {
+  return events
+    .flatMap(event => {
+      if (!event.recurrence || event.recurrence === 'none') return [event];
+
+      const start = parseISO(event.date);
+      const end = event.recurrence_end ? parseISO(event.recurrence_end) : until;
+      const last = end < until ? end : until;
+      // A stored rule outside the known frequencies leaves the event as a one-off
+      const step: unknown = Object.hasOwn(RECURRENCE_MONTHS, event.recurrence)
+        ? RECURRENCE_MONTHS[event.recurrence as keyof typeof RECURRENCE_MONTHS]
+        : undefined;
+      if (!isValid(start) || !isValid(last) || typeof step !== 'number' || !(step > 0)) return [event];
+
+      const occurrences: LiquidityEvent[] = [];
+      for (let k = 0; ; k++) {
+        // Step from the start date each time so month-end dates do not drift
+        const date = addMonths(start, k * step);
+        if (!isValid(date) || date > last) break;
+
+        const isoDate = format(date, 'yyyy-MM-dd');
+        occurrences.push({
+          ...event,
+          id: `${event.id}:${isoDate}`,
+          date: isoDate,
+          series_id: event.id,
+          series_start: event.date
+        });
+      }
+      return occurrences;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
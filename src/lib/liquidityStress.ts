@@ -0,0 +1,241 @@
+import { addDays, addMonths, differenceInCalendarDays, parseISO } from 'date-fns';
+import { FixedIncomeAsset, LiquidityEvent, RegionalMarketData } from '@/types';
+import { calculateAccruedInterest } from '@/lib/cashflows';
+import { getCurveYears, InterpolationMethod, YieldCurve } from '@/lib/curves';
+import { isInflow } from '@/lib/liquidity';
+import { getRegionCurve } from '@/lib/pricing';
+import { calibrateAsset, CalibratedAsset } from '@/lib/scenarios';
+import {
+  choleskyDecompose,
+  createRandom,
+  DEFAULT_RATE_MODEL,
+  getRateFactorCorrelation,
+  getRateShift,
+  RateModelParams,
+  stepRateFactors
+} from '@/lib/simulation';
+
+export interface LiquidityStressOptions {
+  // Seed of the random number generator; the same seed and inputs always give the same result
+  seed?: number;
+  paths?: number;
+  // Events due within this many months are tested
+  horizonMonths?: number;
+  marketData?: RegionalMarketData[];
+  settlement?: Date;
+  method?: InterpolationMethod;
+  rateModel?: RateModelParams;
+  regionRateModels?: Record<string, Partial<RateModelParams>>;
+  crossRegionCorrelation?: number;
+  // Standard deviation of event amounts, as a fraction of the planned amount
+  amountUncertainty?: number;
+  // Standard deviation of event dates, in days
+  dateUncertaintyDays?: number;
+}
+
+export interface EventCoverage {
+  event: LiquidityEvent;
+  // Share of paths in which the event is paid without selling a holding below its cost
+  probability: number;
+  // Average loss realized on forced sales in the paths where it is not
+  averageForcedLoss: number;
+}
+
+export interface LiquidityCoverageResult {
+  seed: number;
+  paths: number;
+  // Outflows within the horizon, in date order
+  events: EventCoverage[];
+  // Share of paths in which every outflow is covered
+  probabilityAllCovered: number;
+}
+
+const DEFAULT_SEED = 42;
+const DEFAULT_PATHS = 1000;
+const DEFAULT_HORIZON_MONTHS = 24;
+
+interface StressHolding {
+  calibrated: CalibratedAsset;
+  curve: YieldCurve | null;
+  regionIndex: number;
+  maturity: Date | null;
+}
+
+interface TimelineItem {
+  date: Date;
+  amount: number;
+  // Holding paying a coupon or redemption, or the event behind an inflow or outflow
+  holding?: number;
+  event?: number;
+}
+
+/**
+ * Probability of paying each outflow in the horizon from coupons, redemptions, inflows and sales
+ * of holdings at or above cost. Each path moves the regional curves with the two-factor rate model
+ * and shifts event amounts and dates at random; when cash runs short, holdings that can be sold
+ * without a loss go first, nearest maturity first, and an outflow that still needs a sale below
+ * cost counts as not covered. Assets and events should already be stated in one currency.
+ */
+export function simulateLiquidityCoverage(
+  assets: FixedIncomeAsset[],
+  events: LiquidityEvent[],
+  options: LiquidityStressOptions = {}
+): LiquidityCoverageResult {
+  const seed = options.seed ?? DEFAULT_SEED;
+  const paths = Math.max(1, Math.round(options.paths ?? DEFAULT_PATHS));
+  const settlement = options.settlement || new Date();
+  const horizonMonths = options.horizonMonths ?? DEFAULT_HORIZON_MONTHS;
+  const horizon = addMonths(settlement, horizonMonths);
+  const amountUncertainty = options.amountUncertainty ?? 0.1;
+  const dateUncertaintyDays = options.dateUncertaintyDays ?? 14;
+
+  const plannedEvents = events
+    .filter(event => {
+      const date = parseISO(event.date);
+      return date >= settlement && date < horizon && event.amount > 0;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const outflowIndexes = plannedEvents.map((event, e) => (isInflow(event) ? -1 : e)).filter(e => e >= 0);
+
+  // Holdings that can be priced, each against the latest curve of its region
+  const regions: string[] = [];
+  const curves = new Map<string, YieldCurve | null>();
+  const holdings: StressHolding[] = [];
+  assets.forEach(asset => {
+    if (!curves.has(asset.region)) {
+      curves.set(asset.region, getRegionCurve(options.marketData || [], asset.region, settlement, options.method));
+    }
+    const curve = curves.get(asset.region)!;
+    const calibrated = calibrateAsset(asset, curve, settlement);
+    if (!calibrated) return;
+
+    if (!regions.includes(asset.region)) regions.push(asset.region);
+    const isPerpetual = asset.type === 'perpetualBond' || !asset.maturity_date;
+    holdings.push({
+      calibrated,
+      curve,
+      regionIndex: regions.indexOf(asset.region),
+      maturity: isPerpetual ? null : parseISO(asset.maturity_date)
+    });
+  });
+
+  const models = regions.map(region => ({ ...DEFAULT_RATE_MODEL, ...options.rateModel, ...options.regionRateModels?.[region] }));
+  const cholesky = choleskyDecompose(getRateFactorCorrelation(models, options.crossRegionCorrelation ?? 0.6));
+  const random = createRandom(seed);
+
+  // Coupons and redemptions due within the horizon do not depend on the path
+  const holdingFlows: TimelineItem[] = holdings.flatMap((holding, h) => holding.calibrated.flows
+    .filter(flow => flow.date < horizon)
+    .map(flow => ({ date: flow.date, amount: flow.amount, holding: h })));
+
+  const covered = plannedEvents.map(() => 0);
+  const forcedLosses = plannedEvents.map(() => 0);
+  let allCovered = 0;
+
+  for (let path = 0; path < paths; path++) {
+    // Month-end rate factors along the path, starting from today's curves
+    const factorsByMonth: number[][] = [new Array(2 * regions.length).fill(0)];
+    for (let month = 1; month <= horizonMonths; month++) {
+      const factors = [...factorsByMonth[month - 1]];
+      const shocks = factors.map(() => random.normal());
+      const correlated = cholesky.map(row => row.reduce((sum, weight, k) => sum + weight * shocks[k], 0));
+      stepRateFactors(factors, models, 1 / 12, correlated);
+      factorsByMonth.push(factors);
+    }
+
+    // Event amounts and dates as they turn out on this path; nothing is paid before today
+    const pathEvents: TimelineItem[] = plannedEvents.map((event, e) => {
+      const shiftDays = Math.round(dateUncertaintyDays * random.normal());
+      const date = addDays(parseISO(event.date), shiftDays);
+      return {
+        date: date < settlement ? settlement : date,
+        amount: event.amount * Math.max(0, 1 + amountUncertainty * random.normal()),
+        event: e
+      };
+    });
+
+    // Receipts are credited before payments due on the same day
+    const timeline = [...holdingFlows, ...pathEvents].sort((a, b) =>
+      a.date.getTime() - b.date.getTime() || (a.holding !== undefined ? -1 : 0) - (b.holding !== undefined ? -1 : 0)
+    );
+
+    const remaining = holdings.map(() => 1);
+    let cash = 0;
+    let pathCovered = true;
+
+    // Clean and dirty value of a whole holding on a date, on this path's curve
+    const valueOn = (h: number, date: Date) => {
+      const { calibrated, curve, regionIndex } = holdings[h];
+      const month = Math.min(horizonMonths, Math.max(0, Math.round(differenceInCalendarDays(date, settlement) / (365 / 12))));
+      const dirty = calibrated.flows.reduce((sum, flow) => {
+        if (flow.date <= date) return sum;
+        const years = getCurveYears(date, flow.date);
+        const rate = (curve ? curve.zeroRate(years) : 0) + calibrated.zSpread +
+          getRateShift(factorsByMonth[month], models, regionIndex, years);
+        return sum + flow.amount / Math.pow(1 + rate / 100, years);
+      }, 0);
+      return { dirty, clean: dirty - calculateAccruedInterest(calibrated.asset, date) };
+    };
+
+    timeline.forEach(item => {
+      if (item.holding !== undefined) {
+        cash += item.amount * remaining[item.holding];
+        return;
+      }
+
+      const event = plannedEvents[item.event!];
+      if (isInflow(event)) {
+        cash += item.amount;
+        return;
+      }
+
+      cash -= item.amount;
+      if (cash >= 0) {
+        covered[item.event!]++;
+        return;
+      }
+
+      // Raise the shortfall from holdings still outstanding, at or above cost first
+      const candidates = holdings
+        .map((holding, h) => ({ h, holding, ...valueOn(h, item.date) }))
+        .filter(({ h, holding, dirty }) =>
+          remaining[h] > 0 && dirty > 0 && (!holding.maturity || holding.maturity > item.date));
+      const atOrAboveCost = candidates
+        .filter(({ holding, clean }) => clean >= holding.calibrated.asset.purchase_price)
+        .sort((a, b) => (a.holding.maturity?.getTime() ?? Infinity) - (b.holding.maturity?.getTime() ?? Infinity));
+      // Then the holdings with the smallest loss relative to cost
+      const belowCost = candidates
+        .filter(({ holding, clean }) => clean < holding.calibrated.asset.purchase_price)
+        .sort((a, b) => b.clean / b.holding.calibrated.asset.purchase_price - a.clean / a.holding.calibrated.asset.purchase_price);
+
+      let forcedLoss = 0;
+      for (const { h, holding, dirty, clean } of [...atOrAboveCost, ...belowCost]) {
+        if (cash >= 0) break;
+        const fraction = Math.min(remaining[h], -cash / dirty);
+        cash += fraction * dirty;
+        remaining[h] -= fraction;
+        forcedLoss += fraction * Math.max(0, holding.calibrated.asset.purchase_price - clean);
+      }
+
+      if (forcedLoss === 0 && cash >= -1e-6) {
+        covered[item.event!]++;
+      } else {
+        pathCovered = false;
+        forcedLosses[item.event!] += forcedLoss;
+      }
+    });
+
+    if (pathCovered) allCovered++;
+  }
+
+  return {
+    seed,
+    paths,
+    events: outflowIndexes.map(e => ({
+      event: plannedEvents[e],
+      probability: covered[e] / paths,
+      averageForcedLoss: paths > covered[e] ? forcedLosses[e] / (paths - covered[e]) : 0
+    })),
+    probabilityAllCovered: allCovered / paths
+  };
+}
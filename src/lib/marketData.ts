@@ -0,0 +1,144 @@
+import { isValid, parseISO } from 'date-fns';
+import { RegionalMarketData, REGIONS } from '@/types';
+import { APPROXIMATE_RATES, RateTable, TERM_YEARS } from '@/lib/optimizer/universe';
+import { createCurveFromMarketData, InterpolationMethod, parseTenor } from '@/lib/curves';
+
+// Columns of an uploaded CSV before the tenor columns
+const CSV_FIELDS = ['region', 'date', 'benchmark_rate', 'inflation_rate'];
+
+// CPI columns of an uploaded CSV, one per month (e.g. CPI 2025-01)
+const CPI_COLUMN = /^cpi[\s_:]*(\d{4}-\d{2})$/i;
+const CPI_MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Latest stored curve of a region on or before a date
+ */
+export function getLatestMarketData(
+  marketData: RegionalMarketData[],
+  region: string,
+  asOf: Date = new Date()
+): RegionalMarketData | null {
+  return marketData
+    .filter(data => data.region === region && parseISO(data.date) <= asOf)
+    .sort((a, b) => b.date.localeCompare(a.date))[0] || null;
+}
+
+/**
+ * Build a rate table from the latest stored curves. Government rates are the zero rates of each
+ * region's curve at the term maturities; other instrument types keep their spread over government from
+ * the fallback table. Regions without a stored curve use the fallback rates unchanged.
+ */
+export function buildRateTable(
+  marketData: RegionalMarketData[],
+  asOf: Date = new Date(),
+  fallback: RateTable = APPROXIMATE_RATES,
+  method: InterpolationMethod = 'monotoneCubic'
+): RateTable {
+  const table: RateTable = { ...fallback };
+  const regions = Array.from(new Set(marketData.map(data => data.region)));
+
+  regions.forEach(region => {
+    const latest = getLatestMarketData(marketData, region, asOf);
+    if (!latest) return;
+
+    const curve = createCurveFromMarketData(latest, method);
+    if (curve.points.length === 0) return;
+
+    const base = fallback[region] || fallback.global;
+    const regionRates: Record<string, Record<string, number>> = {};
+    Object.entries(base).forEach(([type, terms]) => {
+      regionRates[type] = {};
+      Object.entries(terms).forEach(([term, fallbackRate]) => {
+        const curveRate = TERM_YEARS[term] ? curve.zeroRate(TERM_YEARS[term]) : null;
+        // A zero rate means the instrument is not offered at that term
+        if (!fallbackRate || curveRate === null) {
+          regionRates[type][term] = fallbackRate;
+          return;
+        }
+        const spread = fallbackRate - (base.governmentBond?.[term] ?? fallbackRate);
+        regionRates[type][term] = Math.round((curveRate + spread) * 100) / 100;
+      });
+    });
+    table[region] = regionRates;
+  });
+
+  return table;
+}
+
+/**
+ * Error message for an invalid curve, or null when it is valid
+ */
+export function getMarketDataError(data: Partial<RegionalMarketData>): string | null {
+  if (!REGIONS.some(region => region.code === data.region)) {
+    return `Unknown region: ${data.region}`;
+  }
+  if (typeof data.date !== 'string' || !isValid(parseISO(data.date))) {
+    return `Invalid date for ${data.region}`;
+  }
+  if (typeof data.benchmark_rate !== 'number' || !Number.isFinite(data.benchmark_rate)) {
+    return `Benchmark rate for ${data.region} on ${data.date} must be a number`;
+  }
+  if (typeof data.inflation_rate !== 'number' || !Number.isFinite(data.inflation_rate)) {
+    return `Inflation rate for ${data.region} on ${data.date} must be a number`;
+  }
+  if (!data.yield_curve || typeof data.yield_curve !== 'object' || Object.keys(data.yield_curve).length === 0) {
+    return `Yield curve for ${data.region} on ${data.date} has no tenors`;
+  }
+  for (const [tenor, rate] of Object.entries(data.yield_curve)) {
+    if (parseTenor(tenor) === null) {
+      return `Unknown tenor ${tenor} for ${data.region} on ${data.date}`;
+    }
+    if (typeof rate !== 'number' || !Number.isFinite(rate)) {
+      return `Rate at ${tenor} for ${data.region} on ${data.date} must be a number`;
+    }
+  }
+  for (const [month, level] of Object.entries(data.cpi || {})) {
+    if (!CPI_MONTH.test(month)) {
+      return `Unknown CPI month ${month} for ${data.region} on ${data.date}`;
+    }
+    if (typeof level !== 'number' || !Number.isFinite(level) || level <= 0) {
+      return `CPI for ${month} for ${data.region} on ${data.date} must be a positive number`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse curves from CSV with a header of region, date, benchmark_rate, inflation_rate followed by
+ * one column per tenor (e.g. 3M, 1Y, 10Y) and optionally one per CPI month (e.g. CPI 2025-01).
+ * Empty tenor and CPI cells are left out.
+ */
+export function parseMarketDataCsv(text: string): Partial<RegionalMarketData>[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(cell => cell.trim());
+  const missing = CSV_FIELDS.filter(field => !header.some(column => column.toLowerCase() === field));
+  if (missing.length > 0) {
+    throw new Error(`CSV header is missing: ${missing.join(', ')}`);
+  }
+
+  const toNumber = (cell: string | undefined) => (cell === undefined || cell === '' ? NaN : Number(cell));
+
+  return lines.slice(1).map(line => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const data: Partial<RegionalMarketData> = { yield_curve: {} };
+
+    header.forEach((column, k) => {
+      switch (column.toLowerCase()) {
+        case 'region': data.region = cells[k]; break;
+        case 'date': data.date = cells[k]; break;
+        case 'benchmark_rate': data.benchmark_rate = toNumber(cells[k]); break;
+        case 'inflation_rate': data.inflation_rate = toNumber(cells[k]); break;
+        default:
+          if (cells[k] === undefined || cells[k] === '') break;
+          if (CPI_COLUMN.test(column)) {
+            data.cpi = { ...data.cpi, [column.match(CPI_COLUMN)![1]]: toNumber(cells[k]) };
+          } else {
+            data.yield_curve![column.toUpperCase()] = toNumber(cells[k]);
+          }
+      }
+    });
+    return data;
+  });
+}
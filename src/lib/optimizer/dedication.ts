@@ -0,0 +1,173 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { FixedIncomeAsset, LiquidityEvent } from '@/types';
+import { generateCashFlowSchedule } from '@/lib/cashflows';
+import { getOutflows } from '@/lib/liquidity';
+import { getDirtyMarketValue } from '@/lib/utils';
+import { LinearConstraint, LinearProgramStatus, solveLinearProgram } from '@/lib/optimizer/lp';
+
+export interface DedicationInput {
+  events: LiquidityEvent[];
+  // Instruments that may be bought to fund the events
+  candidates: FixedIncomeAsset[];
+  // Existing holdings whose coupons and redemptions already count towards the events
+  holdings?: FixedIncomeAsset[];
+  // Only events and instruments in this currency are matched
+  currency: string;
+  // Annual rate earned on cash held between receipt and the next event, in percent
+  reinvestmentRate?: number;
+  settlement?: Date;
+}
+
+export interface DedicationPurchase {
+  asset: FixedIncomeAsset;
+  faceValue: number;
+  // Dirty cost of the purchase today
+  cost: number;
+}
+
+export interface EventFunding {
+  asset: FixedIncomeAsset;
+  // Part of the event paid by this instrument's cash flows, including reinvestment income
+  amount: number;
+}
+
+export interface EventCoverage {
+  event: LiquidityEvent;
+  funding: EventFunding[];
+  // Part of the event paid from cash carried forward (the initial reserve or earlier surpluses)
+  fromSurplus: number;
+  // Cash left over after the event, reinvested until the next one
+  surplusAfter: number;
+}
+
+export interface DedicationResult {
+  status: LinearProgramStatus;
+  purchases: DedicationPurchase[];
+  // Cash set aside today for events that fall before any instrument pays
+  cashReserve: number;
+  // Cost of all purchases plus the cash reserve
+  totalCost: number;
+  coverage: EventCoverage[];
+}
+
+// Purchases below this face value are dropped from the plan
+const MIN_PURCHASE_FACE = 0.01;
+
+/**
+ * Cash received from an instrument in (start, end], grown at the reinvestment rate until end
+ */
+function receivedBetween(
+  asset: FixedIncomeAsset,
+  start: Date,
+  end: Date,
+  reinvestmentRate: number
+): number {
+  return generateCashFlowSchedule(asset, { from: start, to: end }).reduce(
+    (sum, flow) => sum + flow.amount * Math.pow(1 + reinvestmentRate, differenceInCalendarDays(end, flow.date) / 365),
+    0
+  );
+}
+
+/**
+ * Find the cheapest set of candidate instruments whose coupons and redemptions cover every
+ * liquidity event on or before its date. Cash received ahead of an event, and any surplus
+ * after it, is reinvested at the reinvestment rate until the next event.
+ */
+export function dedicatePortfolio({
+  events,
+  candidates,
+  holdings = [],
+  currency,
+  reinvestmentRate = 0,
+  settlement = new Date()
+}: DedicationInput): DedicationResult {
+  const rate = reinvestmentRate / 100;
+  const liabilities = getOutflows(events)
+    .filter(event => event.currency === currency && parseISO(event.date) > settlement && event.amount > 0)
+    .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+  const instruments = candidates.filter(asset => asset.currency === currency && getDirtyMarketValue(asset) > 0);
+  const funded = holdings.filter(asset => asset.currency === currency);
+
+  const empty: DedicationResult = { status: 'optimal', purchases: [], cashReserve: 0, totalCost: 0, coverage: [] };
+  if (liabilities.length === 0) return empty;
+
+  // Period boundaries: settlement, then each event date
+  const dates = [settlement, ...liabilities.map(event => parseISO(event.date))];
+  const growth = (k: number) => Math.pow(1 + rate, differenceInCalendarDays(dates[k + 1], dates[k]) / 365);
+
+  // Cash received in each period per unit of face value bought, and from existing holdings
+  const unitFlows = instruments.map(asset =>
+    liabilities.map((_, k) => receivedBetween(asset, dates[k], dates[k + 1], rate) / asset.face_value)
+  );
+  const holdingFlows = funded.map(asset =>
+    liabilities.map((_, k) => receivedBetween(asset, dates[k], dates[k + 1], rate))
+  );
+
+  // Variable layout: [face_j for every candidate, surplus_k after every event k, initial cash reserve]
+  const m = instruments.length;
+  const surplusIndex = (k: number) => m + k;
+  const reserveIndex = m + liabilities.length;
+  const variableCount = reserveIndex + 1;
+
+  // Period k: flows received + surplus brought forward - surplus carried on = event amount - holding flows
+  const constraints: LinearConstraint[] = liabilities.map((event, k) => {
+    const row = new Array(variableCount).fill(0);
+    instruments.forEach((_, j) => { row[j] = unitFlows[j][k]; });
+    if (k === 0) {
+      row[reserveIndex] = growth(0);
+    } else {
+      row[surplusIndex(k - 1)] = growth(k);
+    }
+    row[surplusIndex(k)] = -1;
+    const covered = holdingFlows.reduce((sum, flows) => sum + flows[k], 0);
+    return { coefficients: row, relation: '=', rhs: event.amount - covered };
+  });
+
+  // Objective: total cost today of purchases plus the cash reserve
+  const objective = new Array(variableCount).fill(0);
+  instruments.forEach((asset, j) => { objective[j] = getDirtyMarketValue(asset) / asset.face_value; });
+  objective[reserveIndex] = 1;
+
+  const result = solveLinearProgram({ sense: 'min', objective, constraints });
+  if (result.status !== 'optimal') {
+    return { ...empty, status: result.status };
+  }
+
+  const units = instruments.map((_, j) => (result.x[j] > MIN_PURCHASE_FACE ? result.x[j] : 0));
+  const purchases = instruments
+    .map((asset, j) => ({
+      asset,
+      faceValue: units[j],
+      cost: units[j] * getDirtyMarketValue(asset) / asset.face_value
+    }))
+    .filter(purchase => purchase.faceValue > 0);
+  const cashReserve = result.x[reserveIndex];
+
+  // Attribute each event to its sources pro rata; any excess over the event becomes the surplus
+  const coverage = liabilities.map((event, k) => {
+    const sources = [
+      ...instruments.map((asset, j) => ({ asset, amount: unitFlows[j][k] * units[j] })),
+      ...funded.map((asset, i) => ({ asset, amount: holdingFlows[i][k] }))
+    ].filter(source => source.amount > 0);
+    const broughtForward = (k === 0 ? cashReserve : result.x[surplusIndex(k - 1)]) * growth(k);
+    const available = sources.reduce((sum, source) => sum + source.amount, 0) + broughtForward;
+    const share = available > 0 ? Math.min(1, event.amount / available) : 0;
+
+    return {
+      event,
+      funding: sources
+        .map(source => ({ asset: source.asset, amount: source.amount * share }))
+        .sort((a, b) => b.amount - a.amount),
+      fromSurplus: broughtForward * share,
+      surplusAfter: Math.max(0, available - event.amount)
+    };
+  });
+
+  return {
+    status: result.status,
+    purchases,
+    cashReserve,
+    totalCost: purchases.reduce((sum, purchase) => sum + purchase.cost, 0) + cashReserve,
+    coverage
+  };
+}
@@ -0,0 +1,254 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { FixedIncomeAsset, LiquidityEvent } from '@/types';
+import { calculateRiskMetrics } from '@/lib/analytics';
+import { getDirtyMarketValue } from '@/lib/utils';
+import { getOutflows } from '@/lib/liquidity';
+import { LinearConstraint, LinearProgramStatus, solveLinearProgram } from '@/lib/optimizer/lp';
+import { Trade } from '@/lib/optimizer/portfolio';
+
+/**
+ * A single amount owed on a future date
+ */
+export interface Liability {
+  date: Date;
+  amount: number;
+}
+
+export interface ImmunizationInput {
+  assets: FixedIncomeAsset[];
+  candidates: FixedIncomeAsset[];
+  liabilities: Liability[];
+  // Only assets in this currency are used to immunize
+  currency: string;
+  // Flat annual rate used to discount the liabilities, in percent
+  discountRate: number;
+  // Additional cash available for purchases
+  newCash?: number;
+  // Cost of trading, in basis points of market value, charged on every buy and sell
+  transactionCostBps?: number;
+  settlement?: Date;
+}
+
+/**
+ * Change in surplus (assets less liabilities) for a parallel shift in yields
+ */
+export interface SurplusShift {
+  shiftBps: number;
+  surplusChange: number;
+}
+
+/**
+ * Value and rate sensitivity of the assets against the liabilities
+ */
+export interface ImmunizationProfile {
+  // Dirty value of the assets in the currency, including uninvested cash
+  assetValue: number;
+  assetDuration: number;
+  assetConvexity: number;
+  surplus: number;
+  // Surplus change for a 1 basis point fall in yields; zero when immunized
+  surplusDv01: number;
+  shifts: SurplusShift[];
+}
+
+export interface ImmunizationResult {
+  status: LinearProgramStatus;
+  trades: Trade[];
+  liabilityValue: number;
+  liabilityDuration: number;
+  liabilityConvexity: number;
+  before: ImmunizationProfile;
+  after: ImmunizationProfile;
+}
+
+const SHIFTS_BPS = [-200, -100, -50, 50, 100, 200];
+
+// Trades below this value are dropped from the trade list
+const MIN_TRADE_VALUE = 1;
+
+/**
+ * Convert outflows in a currency into liabilities
+ */
+export function getLiabilities(events: LiquidityEvent[], currency: string, settlement: Date = new Date()): Liability[] {
+  return getOutflows(events)
+    .filter(event => event.currency === currency && event.amount > 0)
+    .map(event => ({ date: parseISO(event.date), amount: event.amount }))
+    .filter(liability => liability.date > settlement);
+}
+
+/**
+ * Present value, modified duration and convexity of liabilities discounted at a flat annual rate
+ */
+function valueLiabilities(liabilities: Liability[], rate: number, settlement: Date) {
+  const flows = liabilities.map(liability => ({
+    t: differenceInCalendarDays(liability.date, settlement) / 365,
+    amount: liability.amount
+  }));
+  const value = flows.reduce((sum, flow) => sum + flow.amount * Math.pow(1 + rate, -flow.t), 0);
+  if (value <= 0) return { value: 0, duration: 0, convexity: 0 };
+
+  const macaulay = flows.reduce((sum, flow) => sum + flow.t * flow.amount * Math.pow(1 + rate, -flow.t), 0) / value;
+  const convexity = flows.reduce(
+    (sum, flow) => sum + flow.t * (flow.t + 1) * flow.amount * Math.pow(1 + rate, -flow.t - 2),
+    0
+  ) / value;
+
+  return { value, duration: macaulay / (1 + rate), convexity };
+}
+
+/**
+ * Rebalance a portfolio so that it immunizes a set of liabilities under the Redington conditions:
+ * asset value at least the liability value, dollar duration equal to the liabilities' (so the
+ * surplus is insensitive to small parallel shifts) and dollar convexity at least the liabilities'.
+ * Among the rebalances that satisfy them, the one with the least turnover is chosen.
+ */
+export function immunizePortfolio({
+  assets,
+  candidates,
+  liabilities,
+  currency,
+  discountRate,
+  newCash = 0,
+  transactionCostBps = 10,
+  settlement = new Date()
+}: ImmunizationInput): ImmunizationResult {
+  const rate = discountRate / 100;
+  const cost = transactionCostBps / 10000;
+  const liability = valueLiabilities(liabilities, rate, settlement);
+
+  const holdings = assets.filter(asset => asset.currency === currency && getDirtyMarketValue(asset) > 0);
+  const heldIds = new Set(holdings.map(asset => asset.id));
+  const universe = [
+    ...holdings,
+    ...candidates.filter(asset => asset.currency === currency && !heldIds.has(asset.id))
+  ];
+
+  const current = universe.map((asset, i) => (i < holdings.length ? getDirtyMarketValue(asset) : 0));
+  const metrics = universe.map(asset => calculateRiskMetrics(asset, getDirtyMarketValue(asset), settlement));
+  const durations = metrics.map(metric => metric.modifiedDuration);
+  const convexities = metrics.map(metric => metric.convexity);
+
+  // Surplus profile of a set of positions plus cash, using a second-order price approximation for assets
+  const profile = (positions: number[], cash: number): ImmunizationProfile => {
+    const assetValue = positions.reduce((sum, value) => sum + value, 0) + cash;
+    const dollarDuration = positions.reduce((sum, value, i) => sum + value * durations[i], 0);
+    const dollarConvexity = positions.reduce((sum, value, i) => sum + value * convexities[i], 0);
+
+    return {
+      assetValue,
+      assetDuration: assetValue > 0 ? dollarDuration / assetValue : 0,
+      assetConvexity: assetValue > 0 ? dollarConvexity / assetValue : 0,
+      surplus: assetValue - liability.value,
+      surplusDv01: (dollarDuration - liability.value * liability.duration) * 0.0001,
+      shifts: SHIFTS_BPS.map(shiftBps => {
+        const shift = shiftBps / 10000;
+        const assetChange = -dollarDuration * shift + 0.5 * dollarConvexity * shift * shift;
+        const liabilityChange = valueLiabilities(liabilities, rate + shift, settlement).value - liability.value;
+        return { shiftBps, surplusChange: assetChange - liabilityChange };
+      })
+    };
+  };
+
+  const before = profile(current, newCash);
+  const base = {
+    liabilityValue: liability.value,
+    liabilityDuration: liability.duration,
+    liabilityConvexity: liability.convexity,
+    before
+  };
+
+  if (liability.value <= 0) {
+    return { ...base, status: 'optimal', trades: [], after: before };
+  }
+
+  // Variable layout: [buy_i for every instrument, sell_i for every holding, cash]
+  const n = universe.length;
+  const buyIndex = (i: number) => i;
+  const sellIndex = (i: number) => n + i;
+  const cashIndex = n + holdings.length;
+  const variableCount = cashIndex + 1;
+  const newRow = () => new Array(variableCount).fill(0);
+
+  // Row over final positions: sum of weight_i * (current_i + buy_i - sell_i)
+  const positionRow = (weights: number[]) => {
+    const row = newRow();
+    let constant = 0;
+    universe.forEach((_, i) => {
+      row[buyIndex(i)] = weights[i];
+      if (i < holdings.length) row[sellIndex(i)] = -weights[i];
+      constant += weights[i] * current[i];
+    });
+    return { row, constant };
+  };
+
+  const constraints: LinearConstraint[] = [];
+
+  // Budget: purchases plus costs, less sale proceeds, plus cash kept equals the new cash
+  const budget = newRow();
+  universe.forEach((_, i) => {
+    budget[buyIndex(i)] = 1 + cost;
+    if (i < holdings.length) budget[sellIndex(i)] = -(1 - cost);
+  });
+  budget[cashIndex] = 1;
+  constraints.push({ coefficients: budget, relation: '=', rhs: newCash });
+
+  holdings.forEach((_, i) => {
+    const row = newRow();
+    row[sellIndex(i)] = 1;
+    constraints.push({ coefficients: row, relation: '<=', rhs: current[i] });
+  });
+
+  // Redington conditions
+  const value = positionRow(universe.map(() => 1));
+  value.row[cashIndex] = 1;
+  constraints.push({ coefficients: value.row, relation: '>=', rhs: liability.value - value.constant });
+
+  const duration = positionRow(durations);
+  constraints.push({
+    coefficients: duration.row,
+    relation: '=',
+    rhs: liability.value * liability.duration - duration.constant
+  });
+
+  const convexity = positionRow(convexities);
+  constraints.push({
+    coefficients: convexity.row,
+    relation: '>=',
+    rhs: liability.value * liability.convexity - convexity.constant
+  });
+
+  // Objective: least turnover
+  const objective = newRow();
+  universe.forEach((_, i) => {
+    objective[buyIndex(i)] = 1;
+    if (i < holdings.length) objective[sellIndex(i)] = 1;
+  });
+
+  const result = solveLinearProgram({ sense: 'min', objective, constraints });
+  if (result.status !== 'optimal') {
+    return { ...base, status: result.status, trades: [], after: before };
+  }
+
+  const trades: Trade[] = [];
+  const positions = universe.map((asset, i) => {
+    const bought = result.x[buyIndex(i)];
+    const sold = i < holdings.length ? result.x[sellIndex(i)] : 0;
+    const unitPrice = getDirtyMarketValue(asset) / asset.face_value;
+
+    if (sold > MIN_TRADE_VALUE) {
+      trades.push({ asset, action: 'sell', marketValue: sold, faceValue: sold / unitPrice, isNew: false });
+    }
+    if (bought > MIN_TRADE_VALUE) {
+      trades.push({ asset, action: 'buy', marketValue: bought, faceValue: bought / unitPrice, isNew: i >= holdings.length });
+    }
+
+    return current[i] + bought - sold;
+  });
+
+  return {
+    ...base,
+    status: result.status,
+    trades: trades.sort((a, b) => b.marketValue - a.marketValue),
+    after: profile(positions, result.x[cashIndex])
+  };
+}
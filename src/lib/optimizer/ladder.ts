@@ -0,0 +1,240 @@
+import { differenceInCalendarDays, endOfYear, parseISO, setYear } from 'date-fns';
+import { AssetType, FixedIncomeAsset, User } from '@/types';
+import { generateCashFlowSchedule } from '@/lib/cashflows';
+import { getMarketValue } from '@/lib/utils';
+import { calculateKeyRateDurations, emptyKeyRateDurations, KeyRateDurations } from '@/lib/analytics';
+import { KEY_RATE_TENORS } from '@/lib/scenarios';
+import { LinearConstraint, solveLinearProgram } from '@/lib/optimizer/lp';
+import { createCandidate, RateTable } from '@/lib/optimizer/universe';
+
+export interface LadderOptions {
+  // Cash available for new purchases
+  budget: number;
+  startYear: number;
+  endYear: number;
+  // Years between rungs
+  spacing: number;
+  // Relative weight of each rung, from the first; rungs are weighted evenly when omitted
+  weights?: number[];
+  // Key-rate durations the finished ladder should match, in years; replaces the rung weights when set
+  keyRateTarget?: Partial<KeyRateDurations>;
+  currency: string;
+  region: string;
+  riskTolerance: User['risk_tolerance'];
+}
+
+export interface LadderPurchase {
+  asset: FixedIncomeAsset;
+  type: AssetType;
+  region: string;
+  rate: number;
+  amount: number;
+}
+
+export interface LadderRung {
+  year: number;
+  // Share of the finished ladder this rung should hold, in percent
+  targetWeight: number;
+  targetValue: number;
+  existingValue: number;
+  holdings: FixedIncomeAsset[];
+  purchase: LadderPurchase | null;
+}
+
+export interface LadderCashFlow {
+  year: number;
+  coupons: number;
+  principal: number;
+}
+
+export interface LadderProposal {
+  rungs: LadderRung[];
+  totalExisting: number;
+  totalPurchases: number;
+  annualCashFlows: LadderCashFlow[];
+  // Key-rate durations of the finished ladder, with each rung valued as a par bond maturing in its year
+  keyRateDurations: KeyRateDurations;
+}
+
+// Instrument types each risk profile may buy for a rung; the highest-yielding one is proposed
+const LADDER_TYPES: Record<User['risk_tolerance'], AssetType[]> = {
+  conservative: ['governmentBond', 'treasuryBill'],
+  moderate: ['governmentBond', 'treasuryBill', 'CD'],
+  aggressive: ['governmentBond', 'treasuryBill', 'CD', 'corporateBond']
+};
+
+/**
+ * Pick the instrument type with the highest quoted rate for a term among the types a profile may buy
+ */
+function chooseInstrument(
+  rates: RateTable,
+  region: string,
+  term: 'short' | 'medium' | 'long',
+  riskTolerance: User['risk_tolerance']
+): { type: AssetType; region: string; rate: number } | null {
+  const rateRegion = rates[region] ? region : 'global';
+  const regionRates = rates[rateRegion] || {};
+
+  return (LADDER_TYPES[riskTolerance] || LADDER_TYPES.moderate)
+    .map(type => ({ type, region: rateRegion, rate: regionRates[type]?.[term] || 0 }))
+    .filter(option => option.rate > 0)
+    .sort((a, b) => b.rate - a.rate)[0] || null;
+}
+
+/**
+ * Rung weights whose combined key-rate durations come closest to a target profile, minimizing
+ * the total absolute deviation over the targeted tenors. Returns null when the program has no solution.
+ */
+function solveKeyRateWeights(
+  rungDurations: KeyRateDurations[],
+  target: Partial<KeyRateDurations>
+): number[] | null {
+  const tenors = KEY_RATE_TENORS.filter(tenor => target[tenor] !== undefined);
+  const rungCount = rungDurations.length;
+
+  // Variable layout: [weight_k for every rung, over_t and under_t for every targeted tenor]
+  const variableCount = rungCount + 2 * tenors.length;
+  const newRow = () => new Array(variableCount).fill(0);
+  const constraints: LinearConstraint[] = [];
+
+  const total = newRow();
+  for (let k = 0; k < rungCount; k++) total[k] = 1;
+  constraints.push({ coefficients: total, relation: '=', rhs: 1 });
+
+  tenors.forEach((tenor, t) => {
+    const row = newRow();
+    rungDurations.forEach((durations, k) => {
+      row[k] = durations[tenor];
+    });
+    row[rungCount + 2 * t] = -1;
+    row[rungCount + 2 * t + 1] = 1;
+    constraints.push({ coefficients: row, relation: '=', rhs: target[tenor]! });
+  });
+
+  const objective = newRow();
+  for (let j = rungCount; j < variableCount; j++) objective[j] = 1;
+
+  const result = solveLinearProgram({ sense: 'min', objective, constraints });
+  return result.status === 'optimal' ? result.x.slice(0, rungCount) : null;
+}
+
+/**
+ * Build a bond ladder from a budget. Existing holdings maturing within a rung count as partially
+ * filling it; the budget is spread across the rungs in proportion to how far each one is
+ * below its target share of the finished ladder. With a key-rate target, the target shares are
+ * those whose par bonds come closest to the target key-rate durations.
+ */
+export function buildLadder(
+  assets: FixedIncomeAsset[],
+  options: LadderOptions,
+  rates: RateTable,
+  today: Date = new Date()
+): LadderProposal {
+  const spacing = Math.max(1, Math.round(options.spacing));
+  const years: number[] = [];
+  for (let year = Math.max(options.startYear, today.getFullYear()); year <= options.endYear; year += spacing) {
+    years.push(year);
+  }
+
+  const empty: LadderProposal = {
+    rungs: [],
+    totalExisting: 0,
+    totalPurchases: 0,
+    annualCashFlows: [],
+    keyRateDurations: emptyKeyRateDurations()
+  };
+  if (years.length === 0) return empty;
+
+  // Rungs mature on today's calendar date in their year, or at year end if that has passed
+  const maturities = years.map(year => {
+    const anniversary = setYear(today, year);
+    return anniversary > today ? anniversary : endOfYear(today);
+  });
+  const instruments = maturities.map(maturity => {
+    const termYears = differenceInCalendarDays(maturity, today) / 365;
+    const term = termYears <= 1 ? 'short' : termYears <= 3 ? 'medium' : 'long';
+    return chooseInstrument(rates, options.region, term, options.riskTolerance);
+  });
+
+  // Key-rate durations of a par bond at each rung, at the rate the rung would be bought at
+  const rungDurations = years.map((year, k) => calculateKeyRateDurations(
+    createCandidate(options.region, instruments[k]?.type || 'governmentBond', instruments[k]?.rate || 0, maturities[k], String(year), today),
+    null,
+    today
+  ));
+
+  const rawWeights = (options.keyRateTarget && solveKeyRateWeights(rungDurations, options.keyRateTarget)) ||
+    years.map((_, k) => Math.max(0, options.weights?.[k] ?? 1));
+  const weightSum = rawWeights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const weights = rawWeights.map(weight => weight / weightSum);
+
+  // A rung covers maturities from its year up to the year before the next rung
+  const rungHoldings = years.map(year => assets.filter(asset => {
+    if (asset.currency !== options.currency || !asset.maturity_date || asset.type === 'perpetualBond') return false;
+    const maturity = parseISO(asset.maturity_date);
+    return maturity > today && maturity.getFullYear() >= year && maturity.getFullYear() < year + spacing;
+  }));
+  const existing = rungHoldings.map(holdings => holdings.reduce((sum, asset) => sum + getMarketValue(asset), 0));
+  const totalExisting = existing.reduce((sum, value) => sum + value, 0);
+
+  // Rungs already above target are left alone; the budget fills the shortfalls pro rata
+  const budget = Math.max(0, options.budget);
+  const totalValue = totalExisting + budget;
+  const shortfalls = weights.map((weight, k) => Math.max(0, weight * totalValue - existing[k]));
+  const shortfallSum = shortfalls.reduce((sum, value) => sum + value, 0);
+  const scale = shortfallSum > 0 ? Math.min(1, budget / shortfallSum) : 0;
+
+  const rungs: LadderRung[] = years.map((year, k) => {
+    const amount = shortfalls[k] * scale;
+    const instrument = amount > 0 ? instruments[k] : null;
+
+    let purchase: LadderPurchase | null = null;
+    if (instrument) {
+      const candidate = createCandidate(instrument.region, instrument.type, instrument.rate, maturities[k], String(year), today);
+      purchase = {
+        ...instrument,
+        asset: { ...candidate, face_value: amount, purchase_price: amount, current_price: amount },
+        amount
+      };
+    }
+
+    return {
+      year,
+      targetWeight: weights[k] * 100,
+      targetValue: weights[k] * totalValue,
+      existingValue: existing[k],
+      holdings: rungHoldings[k],
+      purchase
+    };
+  });
+
+  // Project coupons and redemptions of the finished ladder year by year
+  const ladderAssets = rungs.flatMap(rung => [...rung.holdings, ...(rung.purchase ? [rung.purchase.asset] : [])]);
+  const lastYear = years[years.length - 1] + spacing - 1;
+  const annualCashFlows: LadderCashFlow[] = [];
+  for (let year = today.getFullYear(); year <= lastYear; year++) {
+    annualCashFlows.push({ year, coupons: 0, principal: 0 });
+  }
+  ladderAssets.forEach(asset => {
+    generateCashFlowSchedule(asset, { from: today }).forEach(flow => {
+      const entry = annualCashFlows.find(cashFlow => cashFlow.year === flow.date.getFullYear());
+      if (!entry) return;
+      if (flow.type === 'principal') {
+        entry.principal += flow.amount;
+      } else {
+        entry.coupons += flow.amount;
+      }
+    });
+  });
+
+  return {
+    rungs,
+    totalExisting,
+    totalPurchases: rungs.reduce((sum, rung) => sum + (rung.purchase?.amount || 0), 0),
+    annualCashFlows,
+    keyRateDurations: Object.fromEntries(KEY_RATE_TENORS.map(tenor => [
+      tenor,
+      weights.reduce((sum, weight, k) => sum + weight * rungDurations[k][tenor], 0)
+    ])) as KeyRateDurations
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Dense two-phase simplex solver for small linear programs.
+ * All variables are non-negative; upper bounds are expressed as constraints.
+ */
+
+export type ConstraintRelation = '<=' | '>=' | '=';
+
+export interface LinearConstraint {
+  coefficients: number[];
+  relation: ConstraintRelation;
+  rhs: number;
+}
+
+export interface LinearProgram {
+  sense: 'max' | 'min';
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export type LinearProgramStatus = 'optimal' | 'infeasible' | 'unbounded' | 'iterationLimit';
+
+export interface LinearProgramResult {
+  status: LinearProgramStatus;
+  x: number[];
+  objective: number;
+}
+
+const EPSILON = 1e-9;
+const MAX_ITERATIONS = 20000;
+
+/**
+ * Pivot the tableau on (row, column) and record the new basic variable
+ */
+function pivot(tableau: number[][], basis: number[], row: number, column: number): void {
+  const pivotRow = tableau[row];
+  const pivotValue = pivotRow[column];
+  for (let j = 0; j < pivotRow.length; j++) {
+    pivotRow[j] /= pivotValue;
+  }
+
+  for (let i = 0; i < tableau.length; i++) {
+    if (i === row) continue;
+    const factor = tableau[i][column];
+    if (Math.abs(factor) < EPSILON) continue;
+    const current = tableau[i];
+    for (let j = 0; j < current.length; j++) {
+      current[j] -= factor * pivotRow[j];
+    }
+  }
+
+  basis[row] = column;
+}
+
+/**
+ * Maximize the objective over the current tableau using Bland's rule,
+ * which guarantees termination on degenerate problems.
+ * Only the first `columnLimit` columns may enter the basis.
+ */
+function runSimplex(
+  tableau: number[][],
+  basis: number[],
+  objective: number[],
+  columnLimit: number
+): 'optimal' | 'unbounded' | 'iterationLimit' {
+  const rhsColumn = tableau[0]?.length - 1;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Entering variable: lowest index with a positive reduced cost
+    let entering = -1;
+    for (let j = 0; j < columnLimit; j++) {
+      if (basis.includes(j)) continue;
+      let reducedCost = objective[j];
+      for (let i = 0; i < tableau.length; i++) {
+        reducedCost -= objective[basis[i]] * tableau[i][j];
+      }
+      if (reducedCost > EPSILON) {
+        entering = j;
+        break;
+      }
+    }
+
+    if (entering === -1) return 'optimal';
+
+    // Leaving variable: minimum ratio, ties broken by lowest basic index
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < tableau.length; i++) {
+      const coefficient = tableau[i][entering];
+      if (coefficient <= EPSILON) continue;
+      const ratio = tableau[i][rhsColumn] / coefficient;
+      if (ratio < bestRatio - EPSILON || (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+
+    if (leaving === -1) return 'unbounded';
+
+    pivot(tableau, basis, leaving, entering);
+  }
+
+  return 'iterationLimit';
+}
+
+/**
+ * Solve a linear program with the two-phase simplex method
+ */
+export function solveLinearProgram(lp: LinearProgram): LinearProgramResult {
+  const n = lp.objective.length;
+  const direction = lp.sense === 'max' ? 1 : -1;
+
+  // Normalize rows so every right-hand side is non-negative
+  const rows = lp.constraints.map(constraint => {
+    const coefficients = Array.from({ length: n }, (_, j) => constraint.coefficients[j] || 0);
+    if (constraint.rhs >= 0) return { ...constraint, coefficients };
+    const relation: ConstraintRelation =
+      constraint.relation === '<=' ? '>=' : constraint.relation === '>=' ? '<=' : '=';
+    return { coefficients: coefficients.map(v => -v), relation, rhs: -constraint.rhs };
+  });
+
+  const slackCount = rows.filter(row => row.relation !== '=').length;
+  const artificialCount = rows.filter(row => row.relation !== '<=').length;
+  const artificialStart = n + slackCount;
+  const width = artificialStart + artificialCount;
+
+  const tableau = rows.map(() => new Array(width + 1).fill(0));
+  const basis = new Array<number>(rows.length);
+  let slack = n;
+  let artificial = artificialStart;
+
+  rows.forEach((row, i) => {
+    row.coefficients.forEach((value, j) => { tableau[i][j] = value; });
+    tableau[i][width] = row.rhs;
+
+    if (row.relation === '<=') {
+      tableau[i][slack] = 1;
+      basis[i] = slack++;
+    } else if (row.relation === '>=') {
+      tableau[i][slack++] = -1;
+      tableau[i][artificial] = 1;
+      basis[i] = artificial++;
+    } else {
+      tableau[i][artificial] = 1;
+      basis[i] = artificial++;
+    }
+  });
+
+  // Phase 1: minimize the sum of artificial variables to find a feasible basis
+  if (artificialCount > 0) {
+    const phaseOne = Array.from({ length: width }, (_, j) => (j >= artificialStart ? -1 : 0));
+    const status = runSimplex(tableau, basis, phaseOne, width);
+    if (status === 'iterationLimit') {
+      return { status, x: new Array(n).fill(0), objective: 0 };
+    }
+
+    const infeasibility = basis.reduce(
+      (sum, column, i) => sum + (column >= artificialStart ? tableau[i][width] : 0),
+      0
+    );
+    if (infeasibility > 1e-7) {
+      return { status: 'infeasible', x: new Array(n).fill(0), objective: 0 };
+    }
+
+    // Drive any remaining (zero-valued) artificial variables out of the basis
+    basis.forEach((column, i) => {
+      if (column < artificialStart) return;
+      const replacement = tableau[i].findIndex((value, j) => j < artificialStart && Math.abs(value) > EPSILON);
+      if (replacement !== -1) {
+        pivot(tableau, basis, i, replacement);
+      }
+    });
+  }
+
+  // Phase 2: optimize the real objective without letting artificials re-enter
+  const phaseTwo = Array.from({ length: width }, (_, j) => (j < n ? direction * lp.objective[j] : 0));
+  const status = runSimplex(tableau, basis, phaseTwo, artificialStart);
+
+  const x = new Array(n).fill(0);
+  basis.forEach((column, i) => {
+    if (column < n) x[column] = tableau[i][width];
+  });
+
+  return {
+    status,
+    x,
+    objective: x.reduce((sum, value, j) => sum + value * lp.objective[j], 0)
+  };
+}
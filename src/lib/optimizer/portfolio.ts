@@ -0,0 +1,276 @@
+import { parseISO } from 'date-fns';
+import { AssetGroup, FixedIncomeAsset, IssuerType, LiquidityEvent, RegionalMarketData, User, ALLOCATION_BANDS } from '@/types';
+import { generateCashFlowSchedule } from '@/lib/cashflows';
+import { getSignedAmount } from '@/lib/liquidity';
+import { calculateYTW, getAssetGroup, getMarketValue } from '@/lib/utils';
+import { calculateKeyRateDurations, KeyRateDurations } from '@/lib/analytics';
+import { YieldCurve } from '@/lib/curves';
+import { getIssuer } from '@/lib/concentration';
+import { getRatingNotch } from '@/lib/credit';
+import { getRegionCurve } from '@/lib/pricing';
+import { KEY_RATE_TENORS } from '@/lib/scenarios';
+import { LinearConstraint, LinearProgramStatus, solveLinearProgram } from '@/lib/optimizer/lp';
+
+/**
+ * Constraints applied on top of the risk profile allocation bands
+ */
+export interface OptimizationConstraints {
+  // Maximum weight of any single issuer, as a fraction of the portfolio (e.g. 0.25)
+  maxIssuerWeight?: number;
+  // Issuer types the single-issuer limit does not apply to
+  issuerLimitExemptTypes?: IssuerType[];
+  // Minimum credit rating in any agency's notation; unrated assets are allowed
+  minRating?: string;
+  // Maximum weight per currency, as a fraction of the portfolio
+  currencyLimits?: Record<string, number>;
+  // Cost of trading, in basis points of market value, charged on every buy and sell
+  transactionCostBps?: number;
+  // Additional cash available for purchases
+  newCash?: number;
+  // Allocation bands in percent; defaults to the bands of the user's risk profile
+  allocationBands?: Record<AssetGroup, [number, number]>;
+  // Key-rate durations the optimized portfolio should have, in years; only the given tenors are constrained
+  keyRateTargets?: Partial<KeyRateDurations>;
+  // Allowed distance from each key-rate target, in years (default 0.25)
+  keyRateTolerance?: number;
+}
+
+export interface OptimizationInput {
+  user: User;
+  assets: FixedIncomeAsset[];
+  candidates: FixedIncomeAsset[];
+  events: LiquidityEvent[];
+  constraints?: OptimizationConstraints;
+  // Regional curves the key-rate durations are measured against
+  marketData?: RegionalMarketData[];
+}
+
+export interface Trade {
+  asset: FixedIncomeAsset;
+  action: 'buy' | 'sell';
+  // Market value traded, in the asset's currency
+  marketValue: number;
+  // Face value traded at the current clean price
+  faceValue: number;
+  // Whether the asset is a candidate not currently held
+  isNew: boolean;
+}
+
+export interface OptimizationResult {
+  status: LinearProgramStatus;
+  trades: Trade[];
+  // Target allocation by asset group, in percent of the optimized portfolio
+  targetWeights: Record<AssetGroup, number>;
+  // Market-value-weighted yield to worst of the optimized portfolio, in percent
+  expectedYield: number;
+  // Cash left uninvested after all trades
+  cashRemaining: number;
+}
+
+// Positions are tracked in clean market value; trades below this size are dropped
+const MIN_TRADE_VALUE = 1;
+
+/**
+ * Compute the optimal target portfolio and the trades that reach it.
+ * Maximizes portfolio yield to worst net of transaction costs, subject to the allocation bands,
+ * issuer, rating, currency and key-rate duration limits, and cumulative coverage of every future liquidity event
+ * in the user's currency by coupons, redemptions and uninvested cash.
+ */
+export function optimizePortfolio({
+  user,
+  assets,
+  candidates,
+  events,
+  constraints = {},
+  marketData = []
+}: OptimizationInput): OptimizationResult {
+  const today = new Date();
+  const cost = (constraints.transactionCostBps ?? 10) / 10000;
+  const newCash = constraints.newCash ?? 0;
+  const bands = constraints.allocationBands ||
+    ALLOCATION_BANDS[user.risk_tolerance] || ALLOCATION_BANDS.aggressive;
+  const minNotch = getRatingNotch(constraints.minRating);
+  const userCurrency = user.currency || 'EUR';
+
+  const meetsRating = (asset: FixedIncomeAsset) => {
+    const notch = getRatingNotch(asset.rating);
+    return minNotch === null || notch === null || notch <= minNotch;
+  };
+
+  // Only live positions with a value can be traded; matured holdings are ignored
+  const holdings = assets.filter(asset =>
+    getMarketValue(asset) > 0 &&
+    (asset.type === 'perpetualBond' || !asset.maturity_date || parseISO(asset.maturity_date) > today)
+  );
+  const heldIds = new Set(holdings.map(asset => asset.id));
+  const universe = [...holdings, ...candidates.filter(asset => !heldIds.has(asset.id) && meetsRating(asset))];
+
+  // Variable layout: [buy_i for every instrument, sell_i for every holding, cash]
+  const n = universe.length;
+  const buyIndex = (i: number) => i;
+  const sellIndex = (i: number) => n + i;
+  const cashIndex = n + holdings.length;
+  const variableCount = cashIndex + 1;
+
+  const current = universe.map((asset, i) => (i < holdings.length ? getMarketValue(asset) : 0));
+  const yields = universe.map(asset => calculateYTW(asset) / 100);
+
+  // Coefficients of the final position of instrument i: current + buy - sell
+  const positionTerms = (i: number, weight: number, row: number[]) => {
+    row[buyIndex(i)] += weight;
+    if (i < holdings.length) row[sellIndex(i)] -= weight;
+  };
+
+  const constraintRows: LinearConstraint[] = [];
+  const newRow = () => new Array(variableCount).fill(0);
+
+  // Exposure constraint: value-weighted average exposure of the positions >= or <= limit
+  const addExposureConstraint = (exposure: (i: number) => number, limit: number, relation: '<=' | '>=') => {
+    const row = newRow();
+    let rhs = 0;
+    universe.forEach((_, i) => {
+      const weight = exposure(i) - limit;
+      if (weight === 0) return;
+      positionTerms(i, weight, row);
+      rhs -= weight * current[i];
+    });
+    constraintRows.push({ coefficients: row, relation, rhs });
+  };
+
+  // Weight constraint: sum over members of position >= or <= limit * total invested
+  const addWeightConstraint = (members: (i: number) => boolean, limit: number, relation: '<=' | '>=') =>
+    addExposureConstraint(i => (members(i) ? 1 : 0), limit, relation);
+
+  // Budget: purchases plus costs, less sale proceeds, plus cash kept equals the new cash
+  const budget = newRow();
+  universe.forEach((_, i) => {
+    budget[buyIndex(i)] = 1 + cost;
+    if (i < holdings.length) budget[sellIndex(i)] = -(1 - cost);
+  });
+  budget[cashIndex] = 1;
+  constraintRows.push({ coefficients: budget, relation: '=', rhs: newCash });
+
+  // Holdings can be sold down to zero; holdings below the minimum rating must be sold in full
+  holdings.forEach((asset, i) => {
+    const row = newRow();
+    row[sellIndex(i)] = 1;
+    constraintRows.push({ coefficients: row, relation: meetsRating(asset) ? '<=' : '=', rhs: current[i] });
+
+    if (!meetsRating(asset)) {
+      const noPurchase = newRow();
+      noPurchase[buyIndex(i)] = 1;
+      constraintRows.push({ coefficients: noPurchase, relation: '=', rhs: 0 });
+    }
+  });
+
+  // Allocation bands by asset group
+  const groups = universe.map(asset => getAssetGroup(asset));
+  (Object.keys(bands) as AssetGroup[]).forEach(group => {
+    const [min, max] = bands[group];
+    if (min > 0) addWeightConstraint(i => groups[i] === group, min / 100, '>=');
+    if (max < 100) addWeightConstraint(i => groups[i] === group, max / 100, '<=');
+  });
+
+  // Single-issuer limit
+  if (constraints.maxIssuerWeight !== undefined && constraints.maxIssuerWeight < 1) {
+    const exempt = constraints.issuerLimitExemptTypes || [];
+    const issuers = universe.map(asset => getIssuer(asset).toLowerCase());
+    new Set(issuers.filter((_, i) => !exempt.includes(universe[i].issuer_type))).forEach(issuer => {
+      addWeightConstraint(i => issuers[i] === issuer && !exempt.includes(universe[i].issuer_type), constraints.maxIssuerWeight!, '<=');
+    });
+  }
+
+  // Currency limits
+  Object.entries(constraints.currencyLimits || {}).forEach(([currency, limit]) => {
+    addWeightConstraint(i => universe[i].currency === currency, limit, '<=');
+  });
+
+  // Key-rate durations within the tolerance of each target, measured against each region's latest curve
+  if (constraints.keyRateTargets && Object.keys(constraints.keyRateTargets).length > 0) {
+    const tolerance = constraints.keyRateTolerance ?? 0.25;
+    const curves = new Map<string, YieldCurve | null>();
+    const durations = universe.map(asset => {
+      if (!curves.has(asset.region)) curves.set(asset.region, getRegionCurve(marketData, asset.region, today));
+      return calculateKeyRateDurations(asset, curves.get(asset.region)!, today);
+    });
+
+    KEY_RATE_TENORS.forEach(tenor => {
+      const target = constraints.keyRateTargets![tenor];
+      if (target === undefined) return;
+      addExposureConstraint(i => durations[i][tenor], target + tolerance, '<=');
+      addExposureConstraint(i => durations[i][tenor], target - tolerance, '>=');
+    });
+  }
+
+  // Liquidity: cash received by each event date must cover the cumulative needs, net of inflows, up to it
+  const eventDates = events
+    .filter(event => event.currency === userCurrency && parseISO(event.date) > today)
+    .map(event => ({ date: parseISO(event.date), amount: -getSignedAmount(event) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let cumulativeNeeds = 0;
+  eventDates.forEach(({ date, amount }) => {
+    cumulativeNeeds += amount;
+    const row = newRow();
+    let rhs = cumulativeNeeds;
+    universe.forEach((asset, i) => {
+      if (asset.currency !== userCurrency) return;
+      const value = i < holdings.length ? current[i] : getMarketValue(asset);
+      const received = generateCashFlowSchedule(asset, { from: today, to: date })
+        .reduce((sum, flow) => sum + flow.amount, 0);
+      const perUnit = received / value;
+      if (perUnit === 0) return;
+      positionTerms(i, perUnit, row);
+      rhs -= perUnit * current[i];
+    });
+    row[cashIndex] = 1;
+    constraintRows.push({ coefficients: row, relation: '>=', rhs });
+  });
+
+  // Objective: annual income of the final portfolio less the cost of trading
+  const objective = newRow();
+  universe.forEach((_, i) => {
+    objective[buyIndex(i)] = yields[i] - cost;
+    if (i < holdings.length) objective[sellIndex(i)] = -yields[i] - cost;
+  });
+
+  const result = solveLinearProgram({ sense: 'max', objective, constraints: constraintRows });
+
+  const targetWeights = (Object.keys(bands) as AssetGroup[])
+    .reduce((weights, group) => ({ ...weights, [group]: 0 }), {} as Record<AssetGroup, number>);
+
+  if (result.status !== 'optimal') {
+    return { status: result.status, trades: [], targetWeights, expectedYield: 0, cashRemaining: newCash };
+  }
+
+  const trades: Trade[] = [];
+  const positions = universe.map((asset, i) => {
+    const bought = result.x[buyIndex(i)];
+    const sold = i < holdings.length ? result.x[sellIndex(i)] : 0;
+    const unitPrice = (i < holdings.length ? current[i] : getMarketValue(asset)) / asset.face_value;
+
+    if (sold > MIN_TRADE_VALUE) {
+      trades.push({ asset, action: 'sell', marketValue: sold, faceValue: sold / unitPrice, isNew: false });
+    }
+    if (bought > MIN_TRADE_VALUE) {
+      trades.push({ asset, action: 'buy', marketValue: bought, faceValue: bought / unitPrice, isNew: i >= holdings.length });
+    }
+
+    return current[i] + bought - sold;
+  });
+
+  const total = positions.reduce((sum, value) => sum + value, 0);
+  positions.forEach((value, i) => {
+    targetWeights[groups[i]] = (targetWeights[groups[i]] || 0) + (total > 0 ? value / total * 100 : 0);
+  });
+
+  return {
+    status: result.status,
+    trades: trades.sort((a, b) => b.marketValue - a.marketValue),
+    targetWeights,
+    expectedYield: total > 0
+      ? positions.reduce((sum, value, i) => sum + value * yields[i], 0) / total * 100
+      : 0,
+    cashRemaining: result.x[cashIndex]
+  };
+}
@@ -0,0 +1,297 @@
+import { addMonths, parseISO } from 'date-fns';
+import { AssetGroup, FixedIncomeAsset, User, ALLOCATION_BANDS } from '@/types';
+import { generateCashFlowSchedule } from '@/lib/cashflows';
+import { calculateYTW, getAssetGroup, getMarketValue } from '@/lib/utils';
+import { LinearConstraint, LinearProgramStatus, solveLinearProgram } from '@/lib/optimizer/lp';
+import { Trade } from '@/lib/optimizer/portfolio';
+
+/**
+ * How trades may be made: selling and buying, or only investing new cash and maturing proceeds
+ */
+export type RebalanceMode = 'trade' | 'newCashOnly';
+
+export interface RebalanceOptions {
+  mode?: RebalanceMode;
+  // Allocation bands in percent; defaults to the bands of the user's risk profile
+  allocationBands?: Record<AssetGroup, [number, number]>;
+  // Full bid/ask spread assumed for each asset group, in basis points; half is paid on each trade
+  bidAskBps?: Partial<Record<AssetGroup, number>>;
+  // Smallest face value that can be traded; trades are rounded up to multiples of it
+  denomination?: number;
+  // Tax rate applied to realized capital gains, as a fraction, used to prefer sales with smaller gains
+  capitalGainsTaxRate?: number;
+  // Additional cash available for purchases
+  newCash?: number;
+  // In new-cash-only mode, principal redeemed within this many months is reinvested
+  maturityHorizonMonths?: number;
+}
+
+export interface RebalanceTrade extends Trade {
+  // Half-spread paid on the trade
+  transactionCost: number;
+  // Capital gain (or loss, if negative) realized by a sale against the purchase price
+  realizedGain: number;
+}
+
+export interface RebalanceResult {
+  status: LinearProgramStatus;
+  mode: RebalanceMode;
+  trades: RebalanceTrade[];
+  totalCost: number;
+  realizedGain: number;
+  // Principal redeemed within the horizon and reinvested (new-cash-only mode)
+  maturingProceeds: number;
+  cashRemaining: number;
+  // Allocation by asset group before and after the trades, in percent
+  before: Record<AssetGroup, number>;
+  after: Record<AssetGroup, number>;
+  // Groups still outside their band, e.g. when new cash alone cannot fix an overweight
+  residualBreaches: AssetGroup[];
+}
+
+export const DEFAULT_BID_ASK_BPS: Record<AssetGroup, number> = {
+  government: 10,
+  corporate: 50,
+  municipal: 80,
+  savings: 0,
+  other: 100
+};
+
+const DEFAULT_DENOMINATION = 1000;
+
+// Band breaches are penalized far above any trading cost so they are fixed first
+const BREACH_PENALTY = 1000;
+
+// Tolerance, in percentage points, before a group counts as outside its band
+const BAND_TOLERANCE = 0.05;
+
+/**
+ * Allocation by asset group, in percent of the given positions
+ */
+function getAllocation(groups: AssetGroup[], positions: number[]): Record<AssetGroup, number> {
+  const allocation: Record<AssetGroup, number> = { government: 0, corporate: 0, municipal: 0, savings: 0, other: 0 };
+  const total = positions.reduce((sum, value) => sum + value, 0);
+  if (total <= 0) return allocation;
+
+  positions.forEach((value, i) => {
+    allocation[groups[i]] += value / total * 100;
+  });
+  return allocation;
+}
+
+/**
+ * Round a face value up to a whole number of denominations, without exceeding a maximum
+ */
+function roundToDenomination(face: number, denomination: number, max: number = Infinity): number {
+  if (face <= 0) return 0;
+  return Math.min(max, Math.ceil(face / denomination - 1e-9) * denomination);
+}
+
+/**
+ * Find the smallest set of trades that brings every asset group back inside its allocation band.
+ * Trades are costed at half the bid/ask spread of their group and, when a tax rate is given,
+ * sales are also charged the tax on the gain they realize. Trade sizes are rounded up to whole
+ * denominations of face value. In new-cash-only mode nothing is sold: new cash and the principal
+ * of holdings maturing within the horizon are directed to the underweight groups.
+ */
+export function rebalancePortfolio(
+  user: User,
+  assets: FixedIncomeAsset[],
+  candidates: FixedIncomeAsset[],
+  options: RebalanceOptions = {}
+): RebalanceResult {
+  const today = new Date();
+  const mode = options.mode || 'trade';
+  const bands = options.allocationBands ||
+    ALLOCATION_BANDS[user.risk_tolerance] || ALLOCATION_BANDS.aggressive;
+  const spreads = { ...DEFAULT_BID_ASK_BPS, ...options.bidAskBps };
+  const denomination = options.denomination || DEFAULT_DENOMINATION;
+  const taxRate = options.capitalGainsTaxRate || 0;
+
+  const liveHoldings = assets.filter(asset =>
+    getMarketValue(asset) > 0 &&
+    (asset.type === 'perpetualBond' || !asset.maturity_date || parseISO(asset.maturity_date) > today)
+  );
+
+  // In new-cash-only mode, holdings redeemed within the horizon leave the portfolio as cash
+  let maturingProceeds = 0;
+  let holdings = liveHoldings;
+  if (mode === 'newCashOnly') {
+    const horizon = addMonths(today, options.maturityHorizonMonths ?? 12);
+    holdings = liveHoldings.filter(asset => {
+      const redemption = generateCashFlowSchedule(asset, { from: today, to: horizon })
+        .filter(flow => flow.type === 'principal')
+        .reduce((sum, flow) => sum + flow.amount, 0);
+      maturingProceeds += redemption;
+      return redemption === 0;
+    });
+  }
+
+  const heldIds = new Set(holdings.map(asset => asset.id));
+  const universe = [...holdings, ...candidates.filter(asset => !heldIds.has(asset.id))];
+  const groups = universe.map(asset => getAssetGroup(asset));
+  const current = universe.map((asset, i) => (i < holdings.length ? getMarketValue(asset) : 0));
+  const halfSpread = groups.map(group => (spreads[group] || 0) / 2 / 10000);
+
+  // Gain realized per unit of market value sold, against the pro-rated purchase price
+  const gainPerUnit = universe.map((asset, i) =>
+    i < holdings.length ? 1 - halfSpread[i] - asset.purchase_price / current[i] : 0
+  );
+
+  const canSell = mode === 'trade';
+  const cashIn = (options.newCash || 0) + maturingProceeds;
+  const groupKeys = Object.keys(bands) as AssetGroup[];
+
+  // Variable layout: [buy_i, sell_i for every holding, cash, below_g and above_g for every group]
+  const n = universe.length;
+  const buyIndex = (i: number) => i;
+  const sellIndex = (i: number) => n + i;
+  const cashIndex = n + holdings.length;
+  const belowIndex = (g: number) => cashIndex + 1 + 2 * g;
+  const aboveIndex = (g: number) => cashIndex + 2 + 2 * g;
+  const variableCount = cashIndex + 1 + 2 * groupKeys.length;
+  const newRow = () => new Array(variableCount).fill(0);
+
+  const constraints: LinearConstraint[] = [];
+
+  // Budget: purchases at the ask, less sales at the bid, plus cash kept equals the cash available
+  const budget = newRow();
+  universe.forEach((_, i) => {
+    budget[buyIndex(i)] = 1 + halfSpread[i];
+    if (i < holdings.length) budget[sellIndex(i)] = -(1 - halfSpread[i]);
+  });
+  budget[cashIndex] = 1;
+  constraints.push({ coefficients: budget, relation: '=', rhs: cashIn });
+
+  holdings.forEach((_, i) => {
+    const row = newRow();
+    row[sellIndex(i)] = 1;
+    constraints.push({ coefficients: row, relation: canSell ? '<=' : '=', rhs: canSell ? current[i] : 0 });
+  });
+
+  // Bands relative to the invested total, softened by breach variables so the program stays feasible
+  const addBand = (group: AssetGroup, limit: number, relation: '>=' | '<=', breachIndex: number) => {
+    const row = newRow();
+    let rhs = 0;
+    universe.forEach((_, i) => {
+      const weight = (groups[i] === group ? 1 : 0) - limit;
+      row[buyIndex(i)] += weight;
+      if (i < holdings.length) row[sellIndex(i)] -= weight;
+      rhs -= weight * current[i];
+    });
+    row[breachIndex] = relation === '>=' ? 1 : -1;
+    constraints.push({ coefficients: row, relation, rhs });
+  };
+
+  groupKeys.forEach((group, g) => {
+    const [min, max] = bands[group];
+    addBand(group, min / 100, '>=', belowIndex(g));
+    addBand(group, max / 100, '<=', aboveIndex(g));
+  });
+
+  // Objective: breach penalties, then trading costs and tax, with a slight preference for yield
+  const objective = newRow();
+  universe.forEach((asset, i) => {
+    objective[buyIndex(i)] = halfSpread[i] + 1e-6 * (1 - calculateYTW(asset) / 100);
+    if (i < holdings.length) {
+      objective[sellIndex(i)] = halfSpread[i] + 1e-6 + taxRate * Math.max(0, gainPerUnit[i]);
+    }
+  });
+  groupKeys.forEach((_, g) => {
+    objective[belowIndex(g)] = BREACH_PENALTY;
+    objective[aboveIndex(g)] = BREACH_PENALTY;
+  });
+
+  const before = getAllocation(
+    liveHoldings.map(asset => getAssetGroup(asset)),
+    liveHoldings.map(asset => getMarketValue(asset))
+  );
+
+  const result = solveLinearProgram({ sense: 'min', objective, constraints });
+  if (result.status !== 'optimal') {
+    return {
+      status: result.status,
+      mode,
+      trades: [],
+      totalCost: 0,
+      realizedGain: 0,
+      maturingProceeds,
+      cashRemaining: cashIn,
+      before,
+      after: before,
+      residualBreaches: groupKeys.filter(group => before[group] < bands[group][0] || before[group] > bands[group][1])
+    };
+  }
+
+  // Round trades to whole denominations and price them; sales first so their proceeds fund purchases
+  const trades: RebalanceTrade[] = [];
+  const positions = [...current];
+  const unitPrices = universe.map((asset, i) =>
+    (i < holdings.length ? current[i] : getMarketValue(asset)) / asset.face_value
+  );
+  let cash = cashIn;
+
+  holdings.forEach((asset, i) => {
+    const soldValue = result.x[sellIndex(i)];
+    if (soldValue <= denomination * unitPrices[i] / 2) return;
+
+    const faceValue = roundToDenomination(soldValue / unitPrices[i], denomination, asset.face_value);
+    const marketValue = faceValue * unitPrices[i];
+    const transactionCost = marketValue * halfSpread[i];
+    trades.push({
+      asset,
+      action: 'sell',
+      marketValue,
+      faceValue,
+      isNew: false,
+      transactionCost,
+      realizedGain: marketValue - transactionCost - asset.purchase_price * faceValue / asset.face_value
+    });
+    cash += marketValue - transactionCost;
+    positions[i] -= marketValue;
+  });
+
+  universe.forEach((asset, i) => {
+    const boughtValue = result.x[buyIndex(i)];
+    if (boughtValue <= denomination * unitPrices[i] / 2) return;
+
+    // Round up to the next denomination unless the cash does not stretch that far
+    const perDenomination = denomination * unitPrices[i] * (1 + halfSpread[i]);
+    let faceValue = roundToDenomination(boughtValue / unitPrices[i], denomination);
+    if (faceValue / denomination * perDenomination > cash + 1e-6) {
+      faceValue = Math.floor(cash / perDenomination) * denomination;
+    }
+    if (faceValue <= 0) return;
+
+    const marketValue = faceValue * unitPrices[i];
+    const transactionCost = marketValue * halfSpread[i];
+    trades.push({
+      asset,
+      action: 'buy',
+      marketValue,
+      faceValue,
+      isNew: i >= holdings.length,
+      transactionCost,
+      realizedGain: 0
+    });
+    cash -= marketValue + transactionCost;
+    positions[i] += marketValue;
+  });
+
+  const after = getAllocation(groups, positions);
+
+  return {
+    status: result.status,
+    mode,
+    trades,
+    totalCost: trades.reduce((sum, trade) => sum + trade.transactionCost, 0),
+    realizedGain: trades.reduce((sum, trade) => sum + trade.realizedGain, 0),
+    maturingProceeds,
+    cashRemaining: cash,
+    before,
+    after,
+    residualBreaches: groupKeys.filter(group =>
+      after[group] < bands[group][0] - BAND_TOLERANCE || after[group] > bands[group][1] + BAND_TOLERANCE
+    )
+  };
+}
@@ -0,0 +1,155 @@
+import { addYears, differenceInCalendarDays, format } from 'date-fns';
+import { AssetType, ASSET_TYPE_NAMES, FixedIncomeAsset, IssuerType, REGIONS } from '@/types';
+
+/**
+ * Approximate market rates (%) by region, asset type and term
+ */
+export type RateTable = Record<string, Record<string, Record<string, number>>>;
+
+// Get current approximate market rates based on asset type, term, and region
+export const APPROXIMATE_RATES: RateTable = {
+  'eurozone': {
+    'governmentBond': { short: 2.8, medium: 3.1, long: 3.5 },
+    'corporateBond': { short: 3.2, medium: 3.7, long: 4.1 },
+    'CD': { short: 2.5, medium: 2.9, long: 3.3 },
+    'treasuryBill': { short: 2.7, medium: 3.0, long: 3.4 },
+    'moneyMarket': { short: 2.4, medium: 0, long: 0 }
+  },
+  'uk': {
+    'governmentBond': { short: 3.9, medium: 4.2, long: 4.5 },
+    'corporateBond': { short: 4.3, medium: 4.7, long: 5.1 },
+    'CD': { short: 3.7, medium: 4.0, long: 4.3 },
+    'treasuryBill': { short: 3.8, medium: 4.1, long: 4.4 },
+    'moneyMarket': { short: 3.6, medium: 0, long: 0 }
+  },
+  'us': {
+    'governmentBond': { short: 4.1, medium: 4.5, long: 4.8 },
+    'corporateBond': { short: 4.5, medium: 5.0, long: 5.4 },
+    'CD': { short: 4.0, medium: 4.3, long: 4.6 },
+    'treasuryBill': { short: 3.9, medium: 4.2, long: 4.4 },
+    'moneyMarket': { short: 3.8, medium: 0, long: 0 }
+  },
+  'global': {
+    'governmentBond': { short: 3.5, medium: 3.9, long: 4.2 },
+    'corporateBond': { short: 4.0, medium: 4.5, long: 4.8 },
+    'CD': { short: 3.4, medium: 3.7, long: 4.0 },
+    'treasuryBill': { short: 3.5, medium: 3.8, long: 4.1 },
+    'moneyMarket': { short: 3.3, medium: 0, long: 0 }
+  }
+};
+
+// Maturity in years of the par instrument offered for each term
+export const TERM_YEARS: Record<string, number> = {
+  short: 1,
+  medium: 3,
+  long: 7
+};
+
+const REGION_CURRENCIES: Record<string, string> = {
+  eurozone: 'EUR',
+  uk: 'GBP',
+  us: 'USD',
+  global: 'USD'
+};
+
+// Issuer type and typical rating of the generic instrument offered for each asset type
+const CANDIDATE_PROFILES: Partial<Record<AssetType, { issuerType: IssuerType; rating: string }>> = {
+  governmentBond: { issuerType: 'government', rating: 'AA' },
+  treasuryBill: { issuerType: 'government', rating: 'AA' },
+  corporateBond: { issuerType: 'corporate', rating: 'A-' },
+  CD: { issuerType: 'financial', rating: 'A' },
+  moneyMarket: { issuerType: 'financial', rating: 'A' }
+};
+
+// Notional size of one candidate instrument; trades are scaled from it
+const CANDIDATE_FACE_VALUE = 1000;
+
+/**
+ * Create a generic par instrument bought today at a price equal to its face value
+ */
+export function createCandidate(
+  region: string,
+  type: AssetType,
+  rate: number,
+  maturity: Date,
+  label: string,
+  today: Date
+): FixedIncomeAsset {
+  const profile = CANDIDATE_PROFILES[type]!;
+  const regionName = REGIONS.find(r => r.code === region)?.name || region;
+  const maturityDate = format(maturity, 'yyyy-MM-dd');
+
+  return {
+    id: `candidate-${region}-${type}-${maturityDate}`,
+    user_id: '',
+    type,
+    issuer_type: profile.issuerType,
+    name: `${regionName} ${ASSET_TYPE_NAMES[type]} ${label}`,
+    purchase_date: format(today, 'yyyy-MM-dd'),
+    maturity_date: maturityDate,
+    face_value: CANDIDATE_FACE_VALUE,
+    purchase_price: CANDIDATE_FACE_VALUE,
+    current_price: CANDIDATE_FACE_VALUE,
+    interest_rate: rate,
+    interest_payment_frequency: 'annual',
+    currency: REGION_CURRENCIES[region] || 'USD',
+    region,
+    rating: profile.rating,
+    taxable: true,
+    callable: false
+  };
+}
+
+/**
+ * Build a universe of generic par instruments that can be bought, one per region,
+ * asset type and term of the rate table, each priced at par with a coupon equal to its rate
+ */
+export function buildCandidateUniverse(rates: RateTable, today: Date = new Date()): FixedIncomeAsset[] {
+  const candidates: FixedIncomeAsset[] = [];
+
+  Object.entries(rates).forEach(([region, types]) => {
+    Object.entries(types).forEach(([type, terms]) => {
+      if (!CANDIDATE_PROFILES[type as AssetType]) return;
+
+      Object.entries(terms).forEach(([term, rate]) => {
+        // A zero rate means the instrument is not offered at that term
+        if (!rate || !TERM_YEARS[term]) return;
+
+        const years = TERM_YEARS[term];
+        candidates.push(createCandidate(region, type as AssetType, rate, addYears(today, years), `${years}Y`, today));
+      });
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Build par government and corporate bonds of one region maturing exactly on each of the given dates,
+ * priced off the rate table term bucket their maturity falls in
+ */
+export function buildMaturityMatchedCandidates(
+  rates: RateTable,
+  region: string,
+  dates: Date[],
+  today: Date = new Date()
+): FixedIncomeAsset[] {
+  const regionRates = rates[region] || rates.global || {};
+  const candidates: FixedIncomeAsset[] = [];
+
+  dates.filter(date => date > today).forEach(date => {
+    const years = differenceInCalendarDays(date, today) / 365;
+    const term = years <= TERM_YEARS.short ? 'short' : years <= TERM_YEARS.medium ? 'medium' : 'long';
+
+    (['governmentBond', 'corporateBond'] as AssetType[]).forEach(type => {
+      const rate = regionRates[type]?.[term];
+      if (!rate) return;
+      const candidate = createCandidate(rates[region] ? region : 'global', type, rate, date, format(date, 'MMM yyyy'), today);
+      if (!candidates.some(existing => existing.id === candidate.id)) {
+        candidates.push(candidate);
+      }
+    });
+  });
+
+  return candidates;
+}
@@ -0,0 +1,126 @@
+import { FixedIncomeAsset, IssuerType, RegionalMarketData } from '@/types';
+import { calculateAccruedInterest, CashFlow, generateCashFlowSchedule } from '@/lib/cashflows';
+import { createCurveFromMarketData, getCurveYears, InterpolationMethod, YieldCurve } from '@/lib/curves';
+import { getLatestMarketData } from '@/lib/marketData';
+import { getAssumedRating, getRatingGrade, RatingGrade } from '@/lib/credit';
+
+/**
+ * Credit spreads over the regional government curve in basis points, by issuer type and rating grade
+ */
+export type SpreadTable = Record<IssuerType, Record<RatingGrade, number>>;
+
+export const DEFAULT_CREDIT_SPREADS_BPS: SpreadTable = {
+  government: { AAA: 0, AA: 10, A: 40, BBB: 100, BB: 250, B: 450, CCC: 900 },
+  municipal: { AAA: 20, AA: 35, A: 70, BBB: 140, BB: 300, B: 500, CCC: 950 },
+  financial: { AAA: 40, AA: 65, A: 110, BBB: 180, BB: 350, B: 550, CCC: 1050 },
+  corporate: { AAA: 35, AA: 55, A: 95, BBB: 160, BB: 320, B: 520, CCC: 1000 },
+  other: { AAA: 50, AA: 75, A: 120, BBB: 200, BB: 380, B: 600, CCC: 1100 }
+};
+
+export interface PricingOptions {
+  settlement?: Date;
+  method?: InterpolationMethod;
+  spreads?: SpreadTable;
+}
+
+/**
+ * Credit spread of an asset in basis points: its override when set, otherwise the
+ * table spread for its issuer type and rating
+ */
+export function getCreditSpread(asset: FixedIncomeAsset, spreads: SpreadTable = DEFAULT_CREDIT_SPREADS_BPS): number {
+  if (asset.spread_override !== null && asset.spread_override !== undefined) return asset.spread_override;
+
+  const issuerType = spreads[asset.issuer_type] ? asset.issuer_type : 'other';
+  const grade = getRatingGrade(getAssumedRating(asset))!;
+  return spreads[issuerType][grade];
+}
+
+/**
+ * Remaining cash flows an asset is priced from. Perpetuals are valued over the cash flow
+ * horizon with their face value repaid at its end.
+ */
+export function getPricingCashFlows(asset: FixedIncomeAsset, settlement: Date = new Date()): CashFlow[] {
+  const flows = generateCashFlowSchedule(asset, { from: settlement });
+  const isPerpetual = asset.type === 'perpetualBond' || !asset.maturity_date;
+  if (isPerpetual && flows.length > 0) {
+    flows.push({ ...flows[flows.length - 1], type: 'principal', amount: asset.face_value });
+  }
+  return flows;
+}
+
+/**
+ * Present value of cash flows, each discounted from the settlement date at an annually
+ * compounded rate (in percent) that depends on its maturity in years
+ */
+export function discountCashFlows(
+  flows: CashFlow[],
+  rateAt: (years: number) => number,
+  settlement: Date = new Date()
+): number {
+  return flows.reduce((sum, flow) => {
+    const years = getCurveYears(settlement, flow.date);
+    return sum + flow.amount / Math.pow(1 + rateAt(years) / 100, years);
+  }, 0);
+}
+
+/**
+ * Clean model price of an asset: its remaining cash flows discounted from the settlement date at
+ * the curve's zero rate plus the credit spread, less accrued interest. Returns null when nothing
+ * remains to be paid.
+ */
+export function calculateModelPrice(
+  asset: FixedIncomeAsset,
+  curve: YieldCurve,
+  spreadBps: number,
+  settlement: Date = new Date()
+): number | null {
+  const flows = getPricingCashFlows(asset, settlement);
+  if (flows.length === 0) return null;
+
+  const dirtyPrice = discountCashFlows(flows, years => curve.zeroRate(years) + spreadBps / 100, settlement);
+  return Math.max(0, dirtyPrice - calculateAccruedInterest(asset, settlement));
+}
+
+/**
+ * Curve built from the latest stored curve of a region, or of the global region when it has none
+ */
+export function getRegionCurve(
+  marketData: RegionalMarketData[],
+  region: string,
+  asOf: Date = new Date(),
+  method?: InterpolationMethod
+): YieldCurve | null {
+  const data = getLatestMarketData(marketData, region, asOf) || getLatestMarketData(marketData, 'global', asOf);
+  if (!data) return null;
+  const curve = createCurveFromMarketData(data, method);
+  return curve.points.length > 0 ? curve : null;
+}
+
+/**
+ * Fill in a model price for every asset without a stored current price, using the latest curve
+ * of its region (or the global curve). Assets with a current price, or no curve to price
+ * against, are returned unchanged and keep their observed or cost valuation.
+ */
+export function priceAssets(
+  assets: FixedIncomeAsset[],
+  marketData: RegionalMarketData[],
+  options: PricingOptions = {}
+): FixedIncomeAsset[] {
+  const settlement = options.settlement || new Date();
+  const curves = new Map<string, YieldCurve | null>();
+
+  const getCurve = (region: string): YieldCurve | null => {
+    if (!curves.has(region)) curves.set(region, getRegionCurve(marketData, region, settlement, options.method));
+    return curves.get(region)!;
+  };
+
+  return assets.map(asset => {
+    if (asset.current_price !== null && asset.current_price !== undefined && asset.current_price > 0) return asset;
+
+    const curve = getCurve(asset.region);
+    if (!curve) return asset;
+
+    const modelPrice = calculateModelPrice(asset, curve, getCreditSpread(asset, options.spreads), settlement);
+    return modelPrice !== null && modelPrice > 0 ? { ...asset, model_price: modelPrice } : asset;
+  });
+}
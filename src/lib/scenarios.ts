@@ -0,0 +1,238 @@
+import { AssetGroup, FixedIncomeAsset, RegionalMarketData } from '@/types';
+import { calculateAccruedInterest, CashFlow } from '@/lib/cashflows';
+import { getCurveYears, InterpolationMethod, parseTenor, YieldCurve } from '@/lib/curves';
+import { FxConverter } from '@/lib/fx';
+import { discountCashFlows, getPricingCashFlows, getRegionCurve } from '@/lib/pricing';
+import { getAssetGroup, getMarketValue } from '@/lib/utils';
+import { findRoot } from '@/lib/yield';
+
+/**
+ * Standard tenors for key-rate bumps and durations
+ */
+export const KEY_RATE_TENORS = ['3M', '1Y', '2Y', '5Y', '10Y', '20Y', '30Y'] as const;
+
+export type KeyRateTenor = typeof KEY_RATE_TENORS[number];
+
+// Maturities up to the first pivot take the short-end shift of a twist, beyond the second the long-end shift
+const TWIST_PIVOT_YEARS: [number, number] = [2, 10];
+
+/**
+ * A move in the yield curves, as the sum of a parallel shift, a twist and key-rate bumps
+ */
+export interface RateScenario {
+  id: string;
+  name: string;
+  parallelBps?: number;
+  // Shift at the short and long ends, interpolated linearly between the twist pivots
+  twist?: { shortBps: number; longBps: number };
+  // Triangular bumps centred on each tenor, fading to zero at the neighbouring tenors
+  keyRateBps?: Partial<Record<KeyRateTenor, number>>;
+  // Regions whose curves move; every region when omitted
+  regions?: string[];
+}
+
+export interface AssetScenarioResult {
+  asset: FixedIncomeAsset;
+  // Clean value before and after the shock, in the reporting currency
+  baseValue: number;
+  shockedValue: number;
+  pnl: number;
+}
+
+export interface ScenarioResult {
+  scenario: RateScenario;
+  baseValue: number;
+  pnl: number;
+  // P&L as a percentage of the base value
+  pnlPercent: number;
+  assets: AssetScenarioResult[];
+  byGroup: Record<AssetGroup, number>;
+  byRegion: Record<string, number>;
+  // Keyed by the currency the holdings are denominated in
+  byCurrency: Record<string, number>;
+}
+
+export interface ScenarioOptions {
+  marketData?: RegionalMarketData[];
+  // Converts P&L into the reporting currency; holdings are reported in their own currency without one
+  fx?: FxConverter;
+  settlement?: Date;
+  method?: InterpolationMethod;
+}
+
+export const DEFAULT_SCENARIOS: RateScenario[] = [
+  { id: 'parallel-up-50', name: '+50 bp parallel', parallelBps: 50 },
+  { id: 'parallel-down-50', name: '-50 bp parallel', parallelBps: -50 },
+  { id: 'parallel-up-100', name: '+100 bp parallel', parallelBps: 100 },
+  { id: 'parallel-down-100', name: '-100 bp parallel', parallelBps: -100 },
+  { id: 'parallel-up-200', name: '+200 bp parallel', parallelBps: 200 },
+  { id: 'parallel-down-200', name: '-200 bp parallel', parallelBps: -200 },
+  { id: 'steepener', name: 'Steepener (2Y -25 bp, 10Y +25 bp)', twist: { shortBps: -25, longBps: 25 } },
+  { id: 'flattener', name: 'Flattener (2Y +25 bp, 10Y -25 bp)', twist: { shortBps: 25, longBps: -25 } }
+];
+
+const KEY_RATE_YEARS = KEY_RATE_TENORS.map(tenor => parseTenor(tenor)!);
+
+/**
+ * Weight of a key-rate bump at a maturity: one at its tenor, falling linearly to zero at the
+ * neighbouring tenors and held at one beyond the shortest and longest tenors
+ */
+export function getKeyRateWeight(tenor: KeyRateTenor, years: number): number {
+  const k = KEY_RATE_TENORS.indexOf(tenor);
+  const center = KEY_RATE_YEARS[k];
+  const previous = KEY_RATE_YEARS[k - 1];
+  const next = KEY_RATE_YEARS[k + 1];
+
+  if (years <= center) {
+    if (previous === undefined) return 1;
+    return years <= previous ? 0 : (years - previous) / (center - previous);
+  }
+  if (next === undefined) return 1;
+  return years >= next ? 0 : (next - years) / (next - center);
+}
+
+/**
+ * Shift of a scenario at a maturity in years, in basis points
+ */
+export function getScenarioShift(scenario: RateScenario, years: number): number {
+  let shift = scenario.parallelBps || 0;
+
+  if (scenario.twist) {
+    const [shortPivot, longPivot] = TWIST_PIVOT_YEARS;
+    const weight = Math.min(1, Math.max(0, (years - shortPivot) / (longPivot - shortPivot)));
+    shift += scenario.twist.shortBps + weight * (scenario.twist.longBps - scenario.twist.shortBps);
+  }
+
+  Object.entries(scenario.keyRateBps || {}).forEach(([tenor, bps]) => {
+    shift += (bps || 0) * getKeyRateWeight(tenor as KeyRateTenor, years);
+  });
+
+  return shift;
+}
+
+/**
+ * An asset's cash flows together with the curve and spread that reprice it to its market value
+ */
+export interface CalibratedAsset {
+  asset: FixedIncomeAsset;
+  flows: CashFlow[];
+  curve: YieldCurve | null;
+  // Spread over the curve that matches the dirty market value, in percent
+  zSpread: number;
+  dirtyValue: number;
+}
+
+/**
+ * Zero-volatility spread over a curve (or over zero, without a curve) at which the remaining
+ * cash flows of an asset are worth its dirty market value. Returns null if there is nothing
+ * left to pay or no spread matches.
+ */
+export function calibrateAsset(
+  asset: FixedIncomeAsset,
+  curve: YieldCurve | null,
+  settlement: Date = new Date()
+): CalibratedAsset | null {
+  const flows = getPricingCashFlows(asset, settlement);
+  const dirtyValue = getMarketValue(asset) + calculateAccruedInterest(asset, settlement);
+  if (flows.length === 0 || dirtyValue <= 0) return null;
+
+  const baseRate = (years: number) => (curve ? curve.zeroRate(years) : 0);
+  const value = (z: number) => discountCashFlows(flows, years => baseRate(years) + z, settlement);
+  const derivative = (z: number) => flows.reduce((sum, flow) => {
+    const years = getCurveYears(settlement, flow.date);
+    const growth = 1 + (baseRate(years) + z) / 100;
+    return sum - years / 100 * flow.amount / Math.pow(growth, years + 1);
+  }, 0);
+
+  const { root, converged } = findRoot(z => value(z) - dirtyValue, derivative, -50, 100, 0, 1e-9);
+  if (!converged) return null;
+
+  return { asset, flows, curve, zSpread: root, dirtyValue };
+}
+
+/**
+ * Change in value of a calibrated asset when its curve moves by a shift in basis points per maturity
+ */
+export function getShockedValueChange(
+  calibrated: CalibratedAsset,
+  shiftBps: (years: number) => number,
+  settlement: Date = new Date()
+): number {
+  const { flows, curve, zSpread, dirtyValue } = calibrated;
+  const shocked = discountCashFlows(
+    flows,
+    years => (curve ? curve.zeroRate(years) : 0) + zSpread + shiftBps(years) / 100,
+    settlement
+  );
+  return shocked - dirtyValue;
+}
+
+/**
+ * Calibrate every asset to its market value against the curve of its region
+ */
+export function calibrateAssets(assets: FixedIncomeAsset[], options: ScenarioOptions = {}): CalibratedAsset[] {
+  const settlement = options.settlement || new Date();
+  const curves = new Map<string, YieldCurve | null>();
+
+  return assets
+    .map(asset => {
+      if (!curves.has(asset.region)) {
+        curves.set(asset.region, getRegionCurve(options.marketData || [], asset.region, settlement, options.method));
+      }
+      return calibrateAsset(asset, curves.get(asset.region)!, settlement);
+    })
+    .filter((calibrated): calibrated is CalibratedAsset => calibrated !== null);
+}
+
+/**
+ * Reprice every holding under each scenario and break the P&L down by asset, asset group,
+ * region and currency. Each holding is repriced at the spread over its regional curve that
+ * matches its current value, so only the curve move drives the P&L.
+ */
+export function runScenarios(
+  assets: FixedIncomeAsset[],
+  scenarios: RateScenario[],
+  options: ScenarioOptions = {}
+): ScenarioResult[] {
+  const settlement = options.settlement || new Date();
+  const fx = options.fx;
+  const calibrated = calibrateAssets(
+    fx ? assets.filter(asset => fx.canConvert(asset.currency)) : assets,
+    options
+  );
+  const toReporting = (amount: number, currency: string) => (fx ? fx.convert(amount, currency) : amount);
+
+  return scenarios.map(scenario => {
+    const byGroup: Record<AssetGroup, number> = { government: 0, corporate: 0, municipal: 0, savings: 0, other: 0 };
+    const byRegion: Record<string, number> = {};
+    const byCurrency: Record<string, number> = {};
+
+    const assetResults = calibrated.map(item => {
+      const { asset } = item;
+      const moves = !scenario.regions || scenario.regions.includes(asset.region);
+      const change = moves ? getShockedValueChange(item, years => getScenarioShift(scenario, years), settlement) : 0;
+
+      const baseValue = toReporting(getMarketValue(asset), asset.currency);
+      const pnl = toReporting(change, asset.currency);
+      byGroup[getAssetGroup(asset)] += pnl;
+      byRegion[asset.region] = (byRegion[asset.region] || 0) + pnl;
+      byCurrency[asset.currency] = (byCurrency[asset.currency] || 0) + pnl;
+
+      return { asset, baseValue, shockedValue: baseValue + pnl, pnl };
+    });
+
+    const baseValue = assetResults.reduce((sum, result) => sum + result.baseValue, 0);
+    const pnl = assetResults.reduce((sum, result) => sum + result.pnl, 0);
+
+    return {
+      scenario,
+      baseValue,
+      pnl,
+      pnlPercent: baseValue > 0 ? pnl / baseValue * 100 : 0,
+      assets: assetResults,
+      byGroup,
+      byRegion,
+      byCurrency
+    };
+  });
+}
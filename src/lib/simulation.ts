@@ -0,0 +1,450 @@
+import { addDays } from 'date-fns';
+import { FixedIncomeAsset, RegionalMarketData } from '@/types';
+import { CashFlow } from '@/lib/cashflows';
+import { getIssuer } from '@/lib/concentration';
+import { assessCreditRisk, CreditAssumptions, DEFAULT_CREDIT_ASSUMPTIONS, getAssumedRating, getRatingGrade, RatingGrade, RATING_GRADES } from '@/lib/credit';
+import { getCurveYears, InterpolationMethod, YieldCurve } from '@/lib/curves';
+import { FxConverter } from '@/lib/fx';
+import { DEFAULT_CREDIT_SPREADS_BPS, getRegionCurve, SpreadTable } from '@/lib/pricing';
+import { calibrateAsset, CalibratedAsset } from '@/lib/scenarios';
+
+/**
+ * Two-factor Gaussian short-rate model of one region: a fast mean-reverting factor that mostly
+ * moves the short end and a slow one that moves the whole curve. Each factor moves the zero rate
+ * at maturity T by factor * (1 - exp(-a T)) / (a T).
+ */
+export interface RateModelParams {
+  shortReversion: number;
+  // Annual volatility of the short factor, in basis points
+  shortVolatilityBps: number;
+  longReversion: number;
+  longVolatilityBps: number;
+  // Correlation between the two factors of the region
+  factorCorrelation: number;
+}
+
+/**
+ * Annual rating migration probabilities from each grade, in percent, with default last
+ */
+export type MigrationMatrix = Record<RatingGrade, Record<RatingGrade | 'D', number>>;
+
+export interface SimulationOptions {
+  // Seed of the random number generator; the same seed and inputs always give the same result
+  seed?: number;
+  paths?: number;
+  // Horizons to revalue at, in calendar days from the settlement date
+  horizonsDays?: number[];
+  // Confidence levels as fractions, e.g. 0.99
+  confidenceLevels?: number[];
+  marketData?: RegionalMarketData[];
+  // Converts values into the reporting currency; without one FX is not simulated and values are summed as-is
+  fx?: FxConverter;
+  settlement?: Date;
+  method?: InterpolationMethod;
+  rateModel?: RateModelParams;
+  // Model parameters that differ by region
+  regionRateModels?: Record<string, Partial<RateModelParams>>;
+  // Correlation of the same factor in different regions
+  crossRegionCorrelation?: number;
+  // Annual volatility of each currency against the US dollar, as a fraction
+  fxVolatilities?: Record<string, number>;
+  fxCorrelation?: number;
+  migrationMatrix?: MigrationMatrix;
+  // Correlation of issuers' credit quality through one systematic factor
+  creditCorrelation?: number;
+  spreads?: SpreadTable;
+  creditAssumptions?: CreditAssumptions;
+}
+
+export interface RiskMeasure {
+  confidence: number;
+  // Loss not exceeded with the given confidence, as a positive amount
+  valueAtRisk: number;
+  // Average loss beyond the value at risk
+  expectedShortfall: number;
+}
+
+export interface HorizonResult {
+  horizonDays: number;
+  expectedPnl: number;
+  measures: RiskMeasure[];
+  // Simulated P&L of every path, sorted from worst to best
+  pnl: number[];
+}
+
+export interface SimulationResult {
+  seed: number;
+  paths: number;
+  // Dirty value today, in the reporting currency
+  baseValue: number;
+  horizons: HorizonResult[];
+}
+
+export const DEFAULT_RATE_MODEL: RateModelParams = {
+  shortReversion: 0.6,
+  shortVolatilityBps: 70,
+  longReversion: 0.03,
+  longVolatilityBps: 75,
+  factorCorrelation: -0.5
+};
+
+// Annual volatilities against the US dollar
+export const DEFAULT_FX_VOLATILITIES: Record<string, number> = {
+  USD: 0, EUR: 0.08, GBP: 0.09, CHF: 0.08, JPY: 0.1, SEK: 0.1, NOK: 0.11, DKK: 0.08, PLN: 0.11, CZK: 0.1
+};
+
+// Average one-year rating migrations, in percent
+export const DEFAULT_MIGRATION_MATRIX: MigrationMatrix = {
+  AAA: { AAA: 90.81, AA: 8.33, A: 0.68, BBB: 0.06, BB: 0.12, B: 0, CCC: 0, D: 0 },
+  AA: { AAA: 0.7, AA: 90.65, A: 7.79, BBB: 0.64, BB: 0.06, B: 0.14, CCC: 0.02, D: 0 },
+  A: { AAA: 0.09, AA: 2.27, A: 91.05, BBB: 5.52, BB: 0.74, B: 0.26, CCC: 0.01, D: 0.06 },
+  BBB: { AAA: 0.02, AA: 0.33, A: 5.95, BBB: 86.93, BB: 5.3, B: 1.17, CCC: 0.12, D: 0.18 },
+  BB: { AAA: 0.03, AA: 0.14, A: 0.67, BBB: 7.73, BB: 80.53, B: 8.84, CCC: 1, D: 1.06 },
+  B: { AAA: 0, AA: 0.11, A: 0.24, BBB: 0.43, BB: 6.48, B: 83.46, CCC: 4.07, D: 5.2 },
+  CCC: { AAA: 0.22, AA: 0, A: 0.22, BBB: 1.3, BB: 2.38, B: 11.24, CCC: 64.86, D: 19.79 }
+};
+
+const DEFAULT_SEED = 42;
+const DEFAULT_PATHS = 2000;
+const DEFAULT_HORIZONS_DAYS = [10, 30, 365];
+const DEFAULT_CONFIDENCE_LEVELS = [0.95, 0.99];
+
+// Migration states with default last; a defaulted holding stays in default
+const STATES: (RatingGrade | 'D')[] = [...RATING_GRADES, 'D'];
+const DEFAULT_STATE = STATES.length - 1;
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32), with standard normals by Box-Muller
+ */
+export function createRandom(seed: number): { uniform: () => number; normal: () => number } {
+  let state = seed >>> 0;
+  let spare: number | null = null;
+
+  const uniform = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const normal = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const radius = Math.sqrt(-2 * Math.log(1 - uniform()));
+    const angle = 2 * Math.PI * uniform();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+
+  return { uniform, normal };
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26)
+ */
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Lower-triangular Cholesky factor of a correlation matrix. Pivots that are not positive are
+ * floored so that slightly inconsistent correlations still give a usable factor.
+ */
+export function choleskyDecompose(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[j][j];
+    }
+  }
+  return lower;
+}
+
+/**
+ * Correlations of the rate factors of several regions, laid out as [short, long] per region.
+ * The same factor in two regions moves with the cross-region correlation.
+ */
+export function getRateFactorCorrelation(models: RateModelParams[], crossRegionCorrelation: number): number[][] {
+  const size = 2 * models.length;
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => {
+    if (i === j) return 1;
+    const withinRegion = models[Math.floor(i / 2)].factorCorrelation;
+    if (Math.floor(i / 2) === Math.floor(j / 2)) return withinRegion;
+    return i % 2 === j % 2 ? crossRegionCorrelation : crossRegionCorrelation * withinRegion;
+  }));
+}
+
+/**
+ * Advance the rate factors (in percent) by exact Ornstein-Uhlenbeck steps over a period in years,
+ * driven by correlated standard normal shocks in the same layout
+ */
+export function stepRateFactors(factors: number[], models: RateModelParams[], years: number, shocks: number[]): void {
+  models.forEach((model, r) => {
+    [[model.shortReversion, model.shortVolatilityBps], [model.longReversion, model.longVolatilityBps]]
+      .forEach(([reversion, volatilityBps], f) => {
+        const i = 2 * r + f;
+        const decay = Math.exp(-reversion * years);
+        const variance = reversion > 0 ? (1 - decay * decay) / (2 * reversion) : years;
+        factors[i] = factors[i] * decay + volatilityBps / 100 * Math.sqrt(variance) * shocks[i];
+      });
+  });
+}
+
+/**
+ * Move of a region's zero rate at a maturity in years for the current rate factors, in percent
+ */
+export function getRateShift(factors: number[], models: RateModelParams[], region: number, years: number): number {
+  const { shortReversion, longReversion } = models[region];
+  const loading = (reversion: number) =>
+    reversion * years > 1e-6 ? (1 - Math.exp(-reversion * years)) / (reversion * years) : 1;
+  return factors[2 * region] * loading(shortReversion) + factors[2 * region + 1] * loading(longReversion);
+}
+
+/**
+ * Migration probabilities over a period in years as fractions: whole years apply the annual
+ * matrix repeatedly and a remaining fraction of a year scales the moves out of each grade
+ */
+function getPeriodMigrations(matrix: MigrationMatrix, years: number): number[][] {
+  const annual = STATES.map((from, i) => {
+    if (i === DEFAULT_STATE) return STATES.map((_, j) => (j === DEFAULT_STATE ? 1 : 0));
+    const row = STATES.map(to => Math.max(0, matrix[from as RatingGrade][to] || 0));
+    const total = row.reduce((sum, value) => sum + value, 0) || 1;
+    return row.map(value => value / total);
+  });
+  const identity = STATES.map((_, i) => STATES.map((_, j) => (i === j ? 1 : 0)));
+  const multiply = (a: number[][], b: number[][]) =>
+    a.map(row => STATES.map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+
+  let result: number[][] = identity;
+  for (let year = 0; year < Math.floor(years); year++) result = multiply(result, annual);
+  const fraction = years - Math.floor(years);
+  if (fraction > 0) {
+    result = multiply(result, annual.map((row, i) => row.map((value, j) => (i === j ? 1 - fraction * (1 - value) : fraction * value))));
+  }
+  return result;
+}
+
+/**
+ * Value of cash flows at a horizon: flows paid by then are counted at face, later flows are
+ * discounted from the horizon at a rate (in percent) that depends on their maturity from it
+ */
+function valueAtHorizon(flows: CashFlow[], horizon: Date, rateAt: (years: number) => number): number {
+  return flows.reduce((sum, flow) => {
+    if (flow.date <= horizon) return sum + flow.amount;
+    const years = getCurveYears(horizon, flow.date);
+    return sum + flow.amount / Math.pow(1 + rateAt(years) / 100, years);
+  }, 0);
+}
+
+/**
+ * Loss measures of a set of P&L outcomes sorted from worst to best
+ */
+function getRiskMeasure(sortedPnl: number[], confidence: number): RiskMeasure {
+  const tailCount = Math.max(1, Math.floor(sortedPnl.length * (1 - confidence)));
+  const tail = sortedPnl.slice(0, tailCount);
+  return {
+    confidence,
+    valueAtRisk: Math.max(0, -sortedPnl[tailCount - 1]),
+    expectedShortfall: Math.max(0, -tail.reduce((sum, value) => sum + value, 0) / tail.length)
+  };
+}
+
+interface SimulatedHolding {
+  calibrated: CalibratedAsset;
+  curve: YieldCurve | null;
+  regionIndex: number;
+  state: number;
+  spreads: Record<RatingGrade, number>;
+  recoveryValue: number;
+}
+
+/**
+ * Simulate correlated rate, FX and rating paths and revalue the portfolio at each horizon.
+ * Every region's curve moves with its own two-factor model, currencies move lognormally against
+ * the US dollar and issuers migrate between grades through a one-factor Gaussian copula.
+ * Holdings are repriced at the spread over their curve that matches today's value, widened or
+ * tightened by the table spread change of any migration; defaulted holdings are worth their
+ * recovery. P&L at a horizon includes the cash flows received by then.
+ */
+export function runMonteCarlo(assets: FixedIncomeAsset[], options: SimulationOptions = {}): SimulationResult {
+  const seed = options.seed ?? DEFAULT_SEED;
+  const paths = Math.max(1, Math.round(options.paths ?? DEFAULT_PATHS));
+  const horizonsDays = Array.from(new Set(options.horizonsDays || DEFAULT_HORIZONS_DAYS))
+    .filter(days => days > 0)
+    .sort((a, b) => a - b);
+  const confidenceLevels = options.confidenceLevels || DEFAULT_CONFIDENCE_LEVELS;
+  const settlement = options.settlement || new Date();
+  const fx = options.fx;
+  const spreadTable = options.spreads || DEFAULT_CREDIT_SPREADS_BPS;
+  const migrationMatrix = options.migrationMatrix || DEFAULT_MIGRATION_MATRIX;
+  const creditCorrelation = options.creditCorrelation ?? 0.2;
+  const fxVolatilities = { ...DEFAULT_FX_VOLATILITIES, ...(options.fxVolatilities || {}) };
+
+  // Holdings that can be valued today, with their curve, spreads by grade and recovery
+  const regions: string[] = [];
+  const curves = new Map<string, YieldCurve | null>();
+  const holdings: SimulatedHolding[] = [];
+
+  (fx ? assets.filter(asset => fx.canConvert(asset.currency)) : assets).forEach(asset => {
+    if (!curves.has(asset.region)) {
+      curves.set(asset.region, getRegionCurve(options.marketData || [], asset.region, settlement, options.method));
+    }
+    const curve = curves.get(asset.region)!;
+    const calibrated = calibrateAsset(asset, curve, settlement);
+    if (!calibrated) return;
+
+    if (!regions.includes(asset.region)) regions.push(asset.region);
+    const issuerType = spreadTable[asset.issuer_type] ? asset.issuer_type : 'other';
+    const recovery = assessCreditRisk(asset, options.creditAssumptions || DEFAULT_CREDIT_ASSUMPTIONS, settlement).recoveryRate;
+
+    holdings.push({
+      calibrated,
+      curve,
+      regionIndex: regions.indexOf(asset.region),
+      state: STATES.indexOf(getRatingGrade(getAssumedRating(asset))!),
+      spreads: spreadTable[issuerType],
+      recoveryValue: asset.face_value * recovery / 100
+    });
+  });
+
+  const toReporting = (amount: number, currency: string) => (fx ? fx.convert(amount, currency) : amount);
+  const baseValue = holdings.reduce(
+    (sum, holding) => sum + toReporting(holding.calibrated.dirtyValue, holding.calibrated.asset.currency),
+    0
+  );
+
+  const emptyHorizon = (horizonDays: number): HorizonResult => ({
+    horizonDays,
+    expectedPnl: 0,
+    measures: confidenceLevels.map(confidence => ({ confidence, valueAtRisk: 0, expectedShortfall: 0 })),
+    pnl: []
+  });
+  if (holdings.length === 0 || horizonsDays.length === 0) {
+    return { seed, paths, baseValue, horizons: horizonsDays.map(emptyHorizon) };
+  }
+
+  // Currencies whose value against the dollar is simulated, starting with the reporting currency
+  const currencies = fx
+    ? Array.from(new Set([fx.reportingCurrency, ...holdings.map(holding => holding.calibrated.asset.currency)]))
+    : [];
+
+  // Factor layout: [short and long factor of every region, log value of every currency against the dollar]
+  const models = regions.map(region => ({ ...DEFAULT_RATE_MODEL, ...options.rateModel, ...options.regionRateModels?.[region] }));
+  const fxIndex = (currency: string) => 2 * regions.length + currencies.indexOf(currency);
+  const factorCount = 2 * regions.length + currencies.length;
+  const crossRegion = options.crossRegionCorrelation ?? 0.6;
+  const fxCorrelation = options.fxCorrelation ?? 0.5;
+
+  // Rates and FX move independently of each other
+  const rateCorrelation = getRateFactorCorrelation(models, crossRegion);
+  const correlation = Array.from({ length: factorCount }, (_, i) => Array.from({ length: factorCount }, (_, j) => {
+    if (i === j) return 1;
+    const iRate = i < 2 * regions.length;
+    const jRate = j < 2 * regions.length;
+    if (iRate !== jRate) return 0;
+    return iRate ? rateCorrelation[i][j] : fxCorrelation;
+  }));
+  const cholesky = choleskyDecompose(correlation);
+
+  const horizonDates = horizonsDays.map(days => addDays(settlement, days));
+  const stepYears = horizonsDays.map((days, h) => (days - (h > 0 ? horizonsDays[h - 1] : 0)) / 365);
+  const migrations = stepYears.map(years => getPeriodMigrations(migrationMatrix, years));
+
+  const random = createRandom(seed);
+  const pnlByHorizon = horizonsDays.map(() => new Array<number>(paths));
+
+  for (let path = 0; path < paths; path++) {
+    const factors = new Array(factorCount).fill(0);
+    const states = holdings.map(holding => holding.state);
+    // Horizon by which each holding had defaulted, if it has
+    const defaultedAt = holdings.map(() => -1);
+
+    for (let h = 0; h < horizonsDays.length; h++) {
+      const dt = stepYears[h];
+      const shocks = Array.from({ length: factorCount }, () => random.normal());
+      const correlated = cholesky.map(row => row.reduce((sum, weight, k) => sum + weight * shocks[k], 0));
+
+      stepRateFactors(factors, models, dt, correlated);
+
+      // Lognormal FX steps against the dollar
+      currencies.forEach(currency => {
+        const i = fxIndex(currency);
+        const volatility = fxVolatilities[currency] ?? 0.1;
+        factors[i] += -0.5 * volatility * volatility * dt + volatility * Math.sqrt(dt) * correlated[i];
+      });
+
+      // Rating migrations through one systematic credit factor; holdings of one issuer share their own draw
+      const systematic = random.normal();
+      const issuerDraws = new Map<string, number>();
+      holdings.forEach((holding, a) => {
+        if (states[a] === DEFAULT_STATE) return;
+        const issuer = getIssuer(holding.calibrated.asset).toLowerCase();
+        if (!issuerDraws.has(issuer)) issuerDraws.set(issuer, random.normal());
+        const z = Math.sqrt(creditCorrelation) * systematic + Math.sqrt(1 - creditCorrelation) * issuerDraws.get(issuer)!;
+        const u = normalCdf(z);
+        // Low draws migrate towards default, so walk the row from the worst state up
+        const row = migrations[h][states[a]];
+        let cumulative = 0;
+        for (let s = STATES.length - 1; s >= 0; s--) {
+          cumulative += row[s];
+          if (u < cumulative || s === 0) {
+            states[a] = s;
+            if (s === DEFAULT_STATE) defaultedAt[a] = h;
+            break;
+          }
+        }
+      });
+
+      const horizon = horizonDates[h];
+      const reportingValue = holdings.reduce((sum, holding, a) => {
+        const { calibrated, curve, regionIndex } = holding;
+
+        let value: number;
+        if (states[a] === DEFAULT_STATE) {
+          // Recovery is paid at the horizon, on top of the cash flows received by the horizon before the default
+          const lastPaid = defaultedAt[a] > 0 ? horizonDates[defaultedAt[a] - 1] : settlement;
+          value = holding.recoveryValue + calibrated.flows
+            .filter(flow => flow.date <= lastPaid)
+            .reduce((sum, flow) => sum + flow.amount, 0);
+        } else {
+          const spreadChange = (holding.spreads[STATES[states[a]] as RatingGrade] - holding.spreads[STATES[holding.state] as RatingGrade]) / 100;
+          value = valueAtHorizon(calibrated.flows, horizon, years =>
+            (curve ? curve.zeroRate(years) : 0) + calibrated.zSpread + spreadChange +
+            getRateShift(factors, models, regionIndex, years)
+          );
+        }
+
+        const currency = calibrated.asset.currency;
+        const fxMove = fx ? Math.exp(factors[fxIndex(currency)] - factors[fxIndex(fx.reportingCurrency)]) : 1;
+        return sum + toReporting(value, currency) * fxMove;
+      }, 0);
+
+      pnlByHorizon[h][path] = reportingValue - baseValue;
+    }
+  }
+
+  return {
+    seed,
+    paths,
+    baseValue,
+    horizons: horizonsDays.map((horizonDays, h) => {
+      const pnl = pnlByHorizon[h].sort((a, b) => a - b);
+      return {
+        horizonDays,
+        expectedPnl: pnl.reduce((sum, value) => sum + value, 0) / paths,
+        measures: confidenceLevels.map(confidence => getRiskMeasure(pnl, confidence)),
+        pnl
+      };
+    })
+  };
+}
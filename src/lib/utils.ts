@@ -1,4 +1,6 @@
-import { FixedIncomeAsset, CurrencyCode } from '@/types';
+import { FixedIncomeAsset, CurrencyCode, AssetGroup, PriceSource, ASSET_GROUPS } from '@/types';
+import { solveYieldToMaturity, solveYieldToWorst, YieldResult, YieldToWorstResult } from '@/lib/yield';
+import { calculateAccruedInterest } from '@/lib/cashflows';
 
 /**
  * Currency formatting options interface
@@ -95,14 +97,43 @@ export function formatNumberWithCommas(value: number | string): string {
 }
 
 /**
- * Get the current market value of an asset
+ * Get the asset group (government, corporate, ...) an asset belongs to
+ */
+export function getAssetGroup(asset: FixedIncomeAsset): AssetGroup {
+  for (const [groupName, types] of Object.entries(ASSET_GROUPS)) {
+    if (types.includes(asset.type)) {
+      return groupName as AssetGroup;
+    }
+  }
+  return 'other';
+}
+
+/**
+ * Where the market value of an asset comes from: a stored price, the pricing model, or its cost
+ */
+export function getPriceSource(asset: FixedIncomeAsset): PriceSource {
+  if (asset.current_price !== null && asset.current_price !== undefined && asset.current_price > 0) return 'observed';
+  if (asset.model_price !== undefined && asset.model_price > 0) return 'model';
+  return 'cost';
+}
+
+/**
+ * Get the current clean market value of an asset
  */
 export function getMarketValue(asset: FixedIncomeAsset): number {
-  // Check if current_price exists AND is not null/undefined
-  // If it's 0 or any other valid number, fall back to purchase_price
-  return (asset.current_price !== null && asset.current_price !== undefined && asset.current_price > 0) 
-    ? asset.current_price 
-    : asset.purchase_price;
+  // A stored current price wins; without one use the model price, then the purchase price
+  switch (getPriceSource(asset)) {
+    case 'observed': return asset.current_price!;
+    case 'model': return asset.model_price!;
+    default: return asset.purchase_price;
+  }
+}
+
+/**
+ * Get the dirty market value of an asset: the clean market value plus accrued interest
+ */
+export function getDirtyMarketValue(asset: FixedIncomeAsset): number {
+  return getMarketValue(asset) + calculateAccruedInterest(asset);
 }
 
 /**
@@ -134,42 +165,32 @@ export function calculateWeightedAverage(
   ) / totalValue;
 }
 
+/**
+ * Calculate the yield to maturity of an asset at its current dirty market value
+ */
+export function calculateYieldToMaturity(asset: FixedIncomeAsset): YieldResult {
+  return solveYieldToMaturity(asset, getDirtyMarketValue(asset));
+}
+
 /**
  * Calculate the Yield to Maturity (YTM) for a fixed income asset
+ * Returns the bond-equivalent yield in percent, as quoted in the market
  */
 export function calculateYTM(asset: FixedIncomeAsset): number {
-  // Return the nominal interest rate for perpetual bonds
-  if (asset.type === 'perpetualBond' || !asset.maturity_date) {
-    return asset.interest_rate;
-  }
-  
-  const now = new Date();
-  const maturityDate = new Date(asset.maturity_date);
-  
-  // Guard against invalid date
-  if (isNaN(maturityDate.getTime())) {
-    return asset.interest_rate;
-  }
-  
-  // Get years to maturity (minimum 0.01 years to avoid division by zero)
-  const yearsToMaturity = Math.max(
-    0.01,
-    (maturityDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 365)
-  );
-  
-  const purchasePrice = asset.purchase_price;
-  const faceValue = asset.face_value;
-  
-  // For zero-coupon bonds or discount instruments
-  if (asset.interest_rate === 0) {
-    return ((faceValue / purchasePrice) ** (1 / yearsToMaturity) - 1) * 100;
-  }
-  
-  // For coupon-bearing instruments, use a simplified YTM approximation
-  // YTM ≈ (C + (F-P)/n) / ((F+P)/2)
-  const annualCoupon = faceValue * (asset.interest_rate / 100);
-  const priceGain = (faceValue - purchasePrice) / yearsToMaturity;
-  const averageInvestment = (faceValue + purchasePrice) / 2;
-  
-  return ((annualCoupon + priceGain) / averageInvestment) * 100;
-}
\ No newline at end of file
+  return calculateYieldToMaturity(asset).bondEquivalent;
+}
+
+/**
+ * Calculate the yield to worst of an asset at its current dirty market value
+ */
+export function calculateYieldToWorst(asset: FixedIncomeAsset): YieldToWorstResult {
+  return solveYieldToWorst(asset, getDirtyMarketValue(asset));
+}
+
+/**
+ * Calculate the Yield to Worst (YTW) for a fixed income asset
+ * Equals the YTM for non-callable assets; this is the default yield shown across the app
+ */
+export function calculateYTW(asset: FixedIncomeAsset): number {
+  return calculateYieldToWorst(asset).bondEquivalent;
+}
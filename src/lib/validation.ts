@@ -0,0 +1,206 @@
+import { isValid, parseISO } from 'date-fns';
+import {
+  AssetType,
+  CallScheduleEntry,
+  FixedIncomeAsset,
+  InterestFrequency,
+  IssuerType,
+  RatingAgency,
+  ASSET_TYPE_NAMES,
+  CURRENCIES,
+  DAY_COUNT_NAMES,
+  REGIONS,
+  SECTORS
+} from '@/types';
+
+/**
+ * Error message for each invalid field, keyed by column name
+ */
+export type FieldErrors = Record<string, string>;
+
+export const ISSUER_TYPES: IssuerType[] = ['government', 'corporate', 'municipal', 'financial', 'other'];
+
+export const INTEREST_FREQUENCIES: InterestFrequency[] = ['monthly', 'quarterly', 'semiannual', 'annual', 'atMaturity', 'irregular'];
+
+export const RATING_AGENCIES: RatingAgency[] = ['S&P', 'Moodys', 'Fitch', 'DBRS', 'other', 'none'];
+
+// Columns a client may write; anything else in a payload is dropped
+const ASSET_FIELDS: (keyof FixedIncomeAsset)[] = [
+  'type', 'issuer_type', 'name', 'issuer', 'issuer_parent', 'sector', 'purchase_date', 'maturity_date',
+  'face_value', 'purchase_price', 'current_price', 'interest_rate', 'interest_payment_frequency', 'day_count',
+  'currency', 'region', 'rating', 'rating_agency', 'esg_rating', 'taxable', 'callable', 'call_date', 'call_schedule', 'spread_override', 'base_cpi'
+];
+
+const NUMERIC_FIELDS = ['face_value', 'purchase_price', 'current_price', 'interest_rate', 'spread_override', 'base_cpi'];
+
+/**
+ * Parse a number that may arrive as a string from a form field
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && isValid(parseISO(value));
+}
+
+function isCallEntry(value: unknown): value is CallScheduleEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const call = value as Record<string, unknown>;
+  return isDate(call.date) && typeof call.price === 'number' && Number.isFinite(call.price) && call.price > 0;
+}
+
+/**
+ * Keep only the writable asset columns of a payload, converting numeric strings to numbers.
+ * When replacing a stored asset, columns missing from the payload are cleared to null.
+ */
+export function sanitizeAsset(payload: Record<string, unknown>, replace: boolean = false): Partial<FixedIncomeAsset> {
+  const asset: Record<string, unknown> = {};
+  ASSET_FIELDS.forEach(field => {
+    if (payload[field] === undefined) {
+      if (replace) asset[field] = null;
+      return;
+    }
+    const value = payload[field];
+    asset[field] = NUMERIC_FIELDS.includes(field) && value !== null ? toNumber(value) ?? value : value;
+  });
+  return asset as Partial<FixedIncomeAsset>;
+}
+
+/**
+ * Validate a complete asset: enumerations, currency and region codes, date ordering
+ * (purchase before maturity, calls between the two) and numeric ranges
+ */
+export function validateAsset(asset: Partial<Record<keyof FixedIncomeAsset, unknown>>): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (!Object.keys(ASSET_TYPE_NAMES).includes(asset.type as string)) {
+    errors.type = 'Unknown asset type';
+  }
+  if (!ISSUER_TYPES.includes(asset.issuer_type as IssuerType)) {
+    errors.issuer_type = 'Unknown issuer type';
+  }
+  if (!INTEREST_FREQUENCIES.includes(asset.interest_payment_frequency as InterestFrequency)) {
+    errors.interest_payment_frequency = 'Unknown payment frequency';
+  }
+  if (asset.rating_agency && !RATING_AGENCIES.includes(asset.rating_agency as RatingAgency)) {
+    errors.rating_agency = 'Unknown rating agency';
+  }
+  if (asset.day_count && !Object.keys(DAY_COUNT_NAMES).includes(asset.day_count as string)) {
+    errors.day_count = 'Unknown day count convention';
+  }
+  if (!CURRENCIES.some(currency => currency.code === asset.currency)) {
+    errors.currency = 'Unknown currency code';
+  }
+  if (!REGIONS.some(region => region.code === asset.region)) {
+    errors.region = 'Unknown region code';
+  }
+  if (asset.sector && !SECTORS.some(sector => sector.code === asset.sector)) {
+    errors.sector = 'Unknown sector';
+  }
+
+  if (typeof asset.name !== 'string' || !asset.name.trim()) {
+    errors.name = 'Name is required';
+  }
+  if (asset.issuer != null && typeof asset.issuer !== 'string') {
+    errors.issuer = 'Issuer must be text';
+  }
+  if (asset.issuer_parent != null && typeof asset.issuer_parent !== 'string') {
+    errors.issuer_parent = 'Parent issuer must be text';
+  }
+
+  // Flags
+  if (asset.taxable !== undefined && typeof asset.taxable !== 'boolean') {
+    errors.taxable = 'Taxable must be true or false';
+  }
+  if (asset.callable !== undefined && typeof asset.callable !== 'boolean') {
+    errors.callable = 'Callable must be true or false';
+  }
+
+  // Dates
+  if (!asset.purchase_date) {
+    errors.purchase_date = 'Purchase date is required';
+  } else if (!isDate(asset.purchase_date)) {
+    errors.purchase_date = 'Purchase date is not a valid date';
+  }
+
+  const isPerpetual = (asset.type as AssetType) === 'perpetualBond';
+  if (!isPerpetual) {
+    if (!asset.maturity_date) {
+      errors.maturity_date = 'Maturity date is required';
+    } else if (!isDate(asset.maturity_date)) {
+      errors.maturity_date = 'Maturity date is not a valid date';
+    } else if (isDate(asset.purchase_date) && asset.maturity_date <= asset.purchase_date) {
+      errors.maturity_date = 'Maturity date must be after the purchase date';
+    }
+  }
+
+  // Every stored call entry must be a dated call price
+  const schedule: unknown = asset.call_schedule ?? [];
+  if (!Array.isArray(schedule)) {
+    errors.call_schedule = 'Call schedule must be a list';
+  } else if (!schedule.every(isCallEntry)) {
+    errors.call_schedule = 'Each call needs a valid date and a price greater than 0';
+  }
+
+  if (asset.callable && !errors.call_schedule) {
+    const entries = schedule as CallScheduleEntry[];
+    const callDates = entries.length > 0
+      ? entries
+      : asset.call_date ? [{ date: asset.call_date as string, price: 100 }] : [];
+    const purchaseDate = isDate(asset.purchase_date) ? asset.purchase_date : null;
+    const maturityDate = !isPerpetual && isDate(asset.maturity_date) ? asset.maturity_date : null;
+
+    if (callDates.length === 0) {
+      errors.call_date = 'At least one call date is required for callable bonds';
+    } else if (callDates.some(call => !isDate(call.date))) {
+      errors.call_date = 'Call dates must be valid dates';
+    } else if (callDates.some(call => (purchaseDate && call.date <= purchaseDate) || (maturityDate && call.date >= maturityDate))) {
+      errors.call_date = 'Call dates must fall between the purchase and maturity dates';
+    }
+  }
+
+  // Numeric ranges
+  const faceValue = toNumber(asset.face_value);
+  if (faceValue === null || faceValue <= 0) {
+    errors.face_value = 'Face value must be greater than 0';
+  }
+
+  const purchasePrice = toNumber(asset.purchase_price);
+  if (purchasePrice === null || purchasePrice <= 0) {
+    errors.purchase_price = 'Purchase price must be greater than 0';
+  }
+
+  if (asset.current_price != null && asset.current_price !== '') {
+    const currentPrice = toNumber(asset.current_price);
+    if (currentPrice === null || currentPrice < 0) {
+      errors.current_price = 'Current price cannot be negative';
+    }
+  }
+
+  const interestRate = toNumber(asset.interest_rate);
+  if (interestRate === null || interestRate < 0 || interestRate > 100) {
+    errors.interest_rate = 'Interest rate must be between 0 and 100';
+  }
+
+  if (asset.spread_override != null && asset.spread_override !== '') {
+    const spread = toNumber(asset.spread_override);
+    if (spread === null || spread < -500 || spread > 5000) {
+      errors.spread_override = 'Spread override must be between -500 and 5000 basis points';
+    }
+  }
+
+  if (asset.base_cpi != null && asset.base_cpi !== '') {
+    const baseCpi = toNumber(asset.base_cpi);
+    if (baseCpi === null || baseCpi <= 0) {
+      errors.base_cpi = 'Base CPI must be greater than 0';
+    }
+  }
+
+  return errors;
+}
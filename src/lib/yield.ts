@@ -0,0 +1,292 @@
+import { isValid, parseISO } from 'date-fns';
+import { CallScheduleEntry, FixedIncomeAsset } from '@/types';
+import { calculateAccruedInterest, generateCashFlowSchedule, getCouponDates, PAYMENTS_PER_YEAR } from '@/lib/cashflows';
+import { couponPeriodsBetween, getDayCount, yearFraction } from '@/lib/daycount';
+
+/**
+ * Yield of an asset at a given price, in percent
+ */
+export interface YieldResult {
+  // Yield compounded once a year
+  annualEffective: number;
+  // Periodic yield multiplied by the number of coupon periods per year
+  bondEquivalent: number;
+  periodsPerYear: number;
+  converged: boolean;
+}
+
+/**
+ * Yield to worst together with the redemption it assumes
+ */
+export interface YieldToWorstResult extends YieldResult {
+  workout: 'maturity' | 'call';
+  workoutDate?: string;
+}
+
+/**
+ * Cash flow positioned in coupon periods from the settlement date
+ */
+export interface PeriodCashFlow {
+  amount: number;
+  periods: number;
+}
+
+/**
+ * Find a root of f inside [lower, upper] using Newton's method,
+ * falling back to bisection whenever a Newton step leaves the bracket
+ */
+export function findRoot(
+  f: (x: number) => number,
+  df: (x: number) => number,
+  lower: number,
+  upper: number,
+  guess: number,
+  tolerance = 1e-12,
+  maxIterations = 200
+): { root: number; converged: boolean } {
+  let lo = lower;
+  let hi = upper;
+  const fLo = f(lo);
+  const fHi = f(hi);
+
+  if (fLo === 0) return { root: lo, converged: true };
+  if (fHi === 0) return { root: hi, converged: true };
+
+  // No sign change means there is no root to bracket
+  if (fLo * fHi > 0) {
+    return { root: guess, converged: false };
+  }
+
+  let x = guess > lo && guess < hi ? guess : (lo + hi) / 2;
+
+  for (let i = 0; i < maxIterations; i++) {
+    const fx = f(x);
+    if (Math.abs(fx) < tolerance) {
+      return { root: x, converged: true };
+    }
+
+    // Shrink the bracket around the root
+    if (Math.sign(fx) === Math.sign(fLo)) {
+      lo = x;
+    } else {
+      hi = x;
+    }
+
+    let next = x - fx / df(x);
+    if (!isFinite(next) || next <= lo || next >= hi) {
+      next = (lo + hi) / 2;
+    }
+
+    if (Math.abs(next - x) < tolerance * (1 + Math.abs(x))) {
+      return { root: next, converged: true };
+    }
+
+    x = next;
+  }
+
+  return { root: x, converged: false };
+}
+
+/**
+ * Get the call schedule of a callable asset, sorted by date.
+ * Assets with only a legacy call date are treated as callable at par on that date.
+ */
+export function getCallSchedule(asset: FixedIncomeAsset): CallScheduleEntry[] {
+  if (!asset.callable) return [];
+
+  const schedule = asset.call_schedule && asset.call_schedule.length > 0
+    ? asset.call_schedule
+    : asset.call_date ? [{ date: asset.call_date, price: 100 }] : [];
+
+  return schedule
+    .filter(entry => isValid(parseISO(entry.date)))
+    .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+}
+
+/**
+ * Position the remaining cash flows of an asset in coupon periods from settlement.
+ * Coupon-bearing assets are measured on their coupon grid; single-payment assets in years
+ * under their day-count convention. When a call is given, the asset is redeemed on the
+ * call date at the call price plus the interest accrued up to that date.
+ */
+export function getRemainingCashFlows(
+  asset: FixedIncomeAsset,
+  settlement: Date,
+  call?: CallScheduleEntry
+): PeriodCashFlow[] {
+  const schedule = generateCashFlowSchedule(asset, { from: settlement });
+  let flows = schedule.map(flow => ({ date: flow.date, amount: flow.amount }));
+
+  if (call) {
+    const callDate = parseISO(call.date);
+    if (callDate <= settlement) return [];
+
+    flows = schedule
+      .filter(flow => flow.type === 'coupon' && flow.date <= callDate)
+      .map(flow => ({ date: flow.date, amount: flow.amount }));
+    flows.push({
+      date: callDate,
+      amount: asset.face_value * (call.price / 100) + calculateAccruedInterest(asset, callDate)
+    });
+  }
+
+  if (flows.length === 0) return [];
+
+  if (asset.interest_rate === 0 || asset.interest_payment_frequency === 'atMaturity') {
+    return flows.map(flow => ({
+      amount: flow.amount,
+      periods: yearFraction(settlement, flow.date, getDayCount(asset))
+    }));
+  }
+
+  const { grid } = getCouponDates(asset)!;
+  return flows.map(flow => ({
+    amount: flow.amount,
+    periods: couponPeriodsBetween(grid, settlement, flow.date)
+  }));
+}
+
+/**
+ * Present value of period cash flows at a periodic yield
+ */
+export function presentValue(flows: PeriodCashFlow[], periodicYield: number): number {
+  return flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + periodicYield, flow.periods), 0);
+}
+
+/**
+ * Derivative of the present value with respect to the periodic yield
+ */
+export function presentValueDerivative(flows: PeriodCashFlow[], periodicYield: number): number {
+  return flows.reduce(
+    (sum, flow) => sum - flow.periods * flow.amount / Math.pow(1 + periodicYield, flow.periods + 1),
+    0
+  );
+}
+
+/**
+ * Convert a periodic yield into annual-effective and bond-equivalent percentages
+ */
+function toYieldResult(periodicYield: number, periodsPerYear: number, converged: boolean): YieldResult {
+  return {
+    annualEffective: (Math.pow(1 + periodicYield, periodsPerYear) - 1) * 100,
+    bondEquivalent: periodicYield * periodsPerYear * 100,
+    periodsPerYear,
+    converged
+  };
+}
+
+/**
+ * Solve for the periodic yield that discounts the given flows to the price
+ * The price must include accrued interest (dirty price)
+ */
+function solveYield(
+  asset: FixedIncomeAsset,
+  flows: PeriodCashFlow[],
+  price: number,
+  periodsPerYear: number
+): YieldResult {
+  // Seed Newton with the traditional approximation (C + (F-P)/n) / ((F+P)/2)
+  const years = flows[flows.length - 1].periods / periodsPerYear;
+  const redemption = flows[flows.length - 1].amount;
+  const annualCoupon = asset.face_value * (asset.interest_rate / 100);
+  const approximation =
+    (annualCoupon + (redemption - price) / Math.max(years, 0.01)) / ((redemption + price) / 2);
+
+  const { root, converged } = findRoot(
+    y => presentValue(flows, y) - price,
+    y => presentValueDerivative(flows, y),
+    -0.99,
+    10,
+    approximation / periodsPerYear
+  );
+
+  return toYieldResult(root, periodsPerYear, converged);
+}
+
+/**
+ * Number of compounding periods per year used when quoting the yield of an asset
+ */
+function getYieldPeriodsPerYear(asset: FixedIncomeAsset): number {
+  const singlePayment = asset.interest_rate === 0 || asset.interest_payment_frequency === 'atMaturity';
+  return singlePayment ? 1 : PAYMENTS_PER_YEAR[asset.interest_payment_frequency];
+}
+
+/**
+ * Solve for the yield to maturity that discounts every remaining cash flow to the given price
+ * The price must include accrued interest (dirty price)
+ */
+export function solveYieldToMaturity(
+  asset: FixedIncomeAsset,
+  price: number,
+  settlement: Date = new Date()
+): YieldResult {
+  const periodsPerYear = getYieldPeriodsPerYear(asset);
+
+  if (!price || price <= 0) {
+    return toYieldResult(0, periodsPerYear, false);
+  }
+
+  // Perpetual bonds: the price of a level perpetuity is coupon / periodic yield
+  if (asset.type === 'perpetualBond' || !asset.maturity_date) {
+    const coupon = asset.face_value * (asset.interest_rate / 100) / periodsPerYear;
+    return toYieldResult(coupon / price, periodsPerYear, true);
+  }
+
+  const flows = getRemainingCashFlows(asset, settlement);
+  if (flows.length === 0) {
+    return toYieldResult(0, periodsPerYear, true);
+  }
+
+  return solveYield(asset, flows, price, periodsPerYear);
+}
+
+/**
+ * Solve for the yield to a call date, assuming the asset is redeemed at the call price
+ * The price must include accrued interest (dirty price)
+ */
+export function solveYieldToCall(
+  asset: FixedIncomeAsset,
+  price: number,
+  call: CallScheduleEntry,
+  settlement: Date = new Date()
+): YieldResult {
+  const periodsPerYear = getYieldPeriodsPerYear(asset);
+
+  if (!price || price <= 0) {
+    return toYieldResult(0, periodsPerYear, false);
+  }
+
+  const flows = getRemainingCashFlows(asset, settlement, call);
+  if (flows.length === 0) {
+    return toYieldResult(0, periodsPerYear, true);
+  }
+
+  return solveYield(asset, flows, price, periodsPerYear);
+}
+
+/**
+ * Solve for the yield to worst: the lowest of the yield to maturity and the yields
+ * to every remaining call date. Reports which redemption date produces it.
+ */
+export function solveYieldToWorst(
+  asset: FixedIncomeAsset,
+  price: number,
+  settlement: Date = new Date()
+): YieldToWorstResult {
+  let worst: YieldToWorstResult = {
+    ...solveYieldToMaturity(asset, price, settlement),
+    workout: 'maturity',
+    workoutDate: asset.maturity_date || undefined
+  };
+
+  getCallSchedule(asset)
+    .filter(call => parseISO(call.date) > settlement)
+    .forEach(call => {
+      const yieldToCall = solveYieldToCall(asset, price, call, settlement);
+      if (yieldToCall.converged && yieldToCall.bondEquivalent < worst.bondEquivalent) {
+        worst = { ...yieldToCall, workout: 'call', workoutDate: call.date };
+      }
+    });
+
+  return worst;
+}
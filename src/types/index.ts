@@ -20,14 +20,24 @@ export type IssuerType = 'government' | 'corporate' | 'municipal' | 'financial'
 
 export type InterestFrequency = 'monthly' | 'quarterly' | 'semiannual' | 'annual' | 'atMaturity' | 'irregular';
 
+export type DayCountConvention = 'ACT/ACT ICMA' | 'ACT/360' | 'ACT/365F' | '30/360' | '30E/360';
+
 export type RatingAgency = 'S&P' | 'Moodys' | 'Fitch' | 'DBRS' | 'other' | 'none';
 
+export interface CallScheduleEntry {
+	date: string;
+	price: number; // Call price per 100 of face value
+}
+
 export interface FixedIncomeAsset {
 	id: string;
 	user_id: string;
 	type: AssetType;
 	issuer_type: IssuerType;
 	name: string;
+	issuer?: string | null; // Legal issuer; holdings with the same issuer count as one name. Defaults to the asset name
+	issuer_parent?: string | null; // Ultimate parent, grouping subsidiaries and guaranteed vehicles of one group
+	sector?: SectorCode | null; // Defaults from the issuer type
 	purchase_date: string;
 	maturity_date: string;
 	face_value: number;
@@ -35,6 +45,7 @@ export interface FixedIncomeAsset {
 	current_price?: number;
 	interest_rate: number;
 	interest_payment_frequency: InterestFrequency;
+	day_count?: DayCountConvention;
 	currency: string;
 	region: string;
 	rating?: string;
@@ -43,23 +54,54 @@ export interface FixedIncomeAsset {
 	taxable: boolean;
 	callable: boolean;
 	call_date?: string;
+	call_schedule?: CallScheduleEntry[];
+	spread_override?: number | null; // Credit spread over the regional curve in basis points, replacing the estimate
+	base_cpi?: number | null; // Reference CPI the principal of an inflation-linked bond is indexed from
+	model_price?: number; // Clean value from the pricing model when no current price is stored; not persisted
+	indexation?: InflationIndexation; // CPI indexation of inflation-linked bonds, from the regional series; not persisted
 	created_at?: string;
 	updated_at?: string;
 }
 
+export interface InflationIndexation {
+	base_cpi: number; // Reference CPI on the base date; the index ratio is the reference CPI over this
+	lag_months: number; // Months between a date and the CPI month its reference CPI starts from
+	interpolated: boolean; // Interpolate daily between the lagged month and the next
+	deflation_floor: boolean; // Principal is repaid at no less than face value
+	cpi: Record<string, number>; // Published index levels by month (YYYY-MM)
+	projected_inflation: number; // Annual inflation assumed after the last published month, in percent
+}
+
+export type PriceSource = 'observed' | 'model' | 'cost';
+
+export const PRICE_SOURCE_NAMES: Record<PriceSource, string> = {
+	observed: 'Observed',
+	model: 'Model',
+	cost: 'Cost'
+};
+
+export type LiquidityDirection = 'outflow' | 'inflow';
+
+export type RecurrenceFrequency = 'none' | 'monthly' | 'quarterly' | 'yearly';
+
 export interface LiquidityEvent {
 	id: string;
 	user_id: string;
-	amount: number;
+	amount: number; // Always positive; the direction gives the sign
 	currency: string;
-	date: string;
+	date: string; // First occurrence for recurring events
 	description: string;
+	direction?: LiquidityDirection; // Defaults to outflow
+	recurrence?: RecurrenceFrequency;
+	recurrence_end?: string | null; // Last date a recurring event may fall on; open-ended when empty
+	series_id?: string; // Set on occurrences expanded from a recurring event
+	series_start?: string;
 	created_at?: string;
 	updated_at?: string;
 }
 
 export interface Recommendation {
-	category: 'rollover' | 'diversification' | 'laddering' | 'liquidity' | 'currency' | 'regional' | 'yield';
+	category: 'rollover' | 'diversification' | 'concentration' | 'credit' | 'laddering' | 'immunization' | 'liquidity' | 'currency' | 'regional' | 'yield';
 	title: string;
 	description: string;
 	actionItems: string[];
@@ -76,10 +118,12 @@ export interface CurrencyRate {
 
 export interface RegionalMarketData {
 	region: string;
+	date: string; // date the curve was observed
 	benchmark_rate: number; // e.g., ECB rate, BoE rate
 	inflation_rate: number;
 	yield_curve: {[tenor: string]: number}; // e.g., "1Y": 3.5, "5Y": 4.2
-	updated_at: string;
+	cpi?: {[month: string]: number} | null; // CPI index levels by month, e.g., "2025-01": 126.3
+	updated_at?: string;
 }
 
 export const CURRENCIES = [
@@ -122,6 +166,25 @@ export const REGIONS = [
 
 export type RegionCode = typeof REGIONS[number]['code'];
 
+export const SECTORS = [
+  { code: 'sovereign', name: 'Sovereign' },
+  { code: 'agency', name: 'Agency & Supranational' },
+  { code: 'municipal', name: 'Municipal' },
+  { code: 'financials', name: 'Financials' },
+  { code: 'utilities', name: 'Utilities' },
+  { code: 'energy', name: 'Energy' },
+  { code: 'industrials', name: 'Industrials' },
+  { code: 'consumer', name: 'Consumer' },
+  { code: 'healthcare', name: 'Healthcare' },
+  { code: 'technology', name: 'Technology & Telecom' },
+  { code: 'realEstate', name: 'Real Estate' },
+  { code: 'other', name: 'Other' },
+] as const;
+
+export type SectorCode = typeof SECTORS[number]['code'];
+
+export type AssetGroup = 'government' | 'corporate' | 'municipal' | 'savings' | 'other';
+
 export const ASSET_GROUPS: Record<string, AssetType[]> = {
   government: ['governmentBond', 'treasuryBill', 'treasuryNote', 'treasuryBond', 'gilts', 'bunds', 'OATs', 'BTPs', 'inflationLinkedBond'],
   corporate: ['corporateBond', 'structuredNote', 'subordinatedBond', 'perpetualBond'],
@@ -130,6 +193,31 @@ export const ASSET_GROUPS: Record<string, AssetType[]> = {
   other: ['other']
 };
 
+// Target allocation bands (min %, max %) by asset group for each risk profile
+export const ALLOCATION_BANDS: Record<User['risk_tolerance'], Record<AssetGroup, [number, number]>> = {
+  conservative: {
+    government: [40, 70],
+    corporate: [10, 30],
+    municipal: [0, 20],
+    savings: [10, 30],
+    other: [0, 10]
+  },
+  moderate: {
+    government: [30, 50],
+    corporate: [20, 40],
+    municipal: [0, 30],
+    savings: [5, 20],
+    other: [0, 15]
+  },
+  aggressive: {
+    government: [15, 40],
+    corporate: [30, 60],
+    municipal: [0, 40],
+    savings: [0, 15],
+    other: [0, 20]
+  }
+};
+
 export const ASSET_TYPE_NAMES: Record<AssetType, string> = {
   governmentBond: 'Government Bond',
   corporateBond: 'Corporate Bond',
@@ -151,4 +239,12 @@ export const ASSET_TYPE_NAMES: Record<AssetType, string> = {
   other: 'Other'
 };
 
+export const DAY_COUNT_NAMES: Record<DayCountConvention, string> = {
+  'ACT/ACT ICMA': 'Actual/Actual (ICMA)',
+  'ACT/360': 'Actual/360',
+  'ACT/365F': 'Actual/365 Fixed',
+  '30/360': '30/360 (Bond Basis)',
+  '30E/360': '30E/360 (Eurobond Basis)'
+};
+
 export type Term = 'short' | 'medium' | 'long';